@@ -0,0 +1,109 @@
+import { MastraVector } from "@mastra/core/vector";
+import type {
+  CreateIndexParams,
+  DeleteIndexParams,
+  DeleteVectorParams,
+  DescribeIndexParams,
+  IndexStats,
+  QueryResult,
+  QueryVectorParams,
+  UpdateVectorParams,
+  UpsertVectorParams,
+} from "@mastra/core/vector";
+import { Neo4jStorage } from "./Neo4jStorage";
+
+// vector store for mastra memory that keeps message embeddings on the Message nodes of a Neo4jStorage.
+// memory only ever indexes messages, so every index name maps onto the same message_embedding index.
+export class Neo4jMessageVector extends MastraVector {
+  private storage: Neo4jStorage;
+  private indexes: Map<string, number>;
+
+  constructor(storage: Neo4jStorage) {
+    super();
+    this.storage = storage;
+    this.indexes = new Map();
+  }
+
+  get indexSeparator(): string {
+    return "_";
+  }
+
+  async createIndex({ indexName, dimension }: CreateIndexParams): Promise<void> {
+    await this.storage.ensureMessageVectorIndex(dimension);
+    this.indexes.set(indexName, dimension);
+  }
+
+  async listIndexes(): Promise<string[]> {
+    return Array.from(this.indexes.keys());
+  }
+
+  async describeIndex({ indexName }: DescribeIndexParams): Promise<IndexStats> {
+    const [record] = await this.storage.query(`
+      MATCH (m:Message)
+      WHERE m.embedding IS NOT NULL
+      RETURN count(m) AS count
+    `);
+
+    return {
+      dimension: this.indexes.get(indexName) ?? 0,
+      count: record?.count?.toNumber?.() ?? 0,
+      metric: "cosine",
+    };
+  }
+
+  async deleteIndex({ indexName }: DeleteIndexParams): Promise<void> {
+    this.indexes.delete(indexName);
+  }
+
+  // memory sends one vector per chunk of a message; chunks of the same message are averaged
+  async upsert({ vectors, metadata, ids }: UpsertVectorParams): Promise<string[]> {
+    const byMessage = new Map<string, number[][]>();
+
+    vectors.forEach((vector, i) => {
+      const messageId = metadata?.[i]?.message_id ?? ids?.[i];
+      if (!messageId) return;
+      byMessage.set(messageId, [...(byMessage.get(messageId) || []), vector]);
+    });
+
+    const entries = Array.from(byMessage.entries()).map(([messageId, chunks]) => ({
+      messageId,
+      embedding: chunks[0].map((_, d) => chunks.reduce((sum, chunk) => sum + chunk[d], 0) / chunks.length),
+    }));
+
+    await this.storage.setMessageEmbeddings(entries);
+
+    return entries.map((entry) => entry.messageId);
+  }
+
+  // ids are message ids; metadata is derived from the message itself and can't be changed here
+  async updateVector({ id, update }: UpdateVectorParams): Promise<void> {
+    if (!update.vector) return;
+    await this.storage.setMessageEmbeddings([{ messageId: id, embedding: update.vector }]);
+  }
+
+  async deleteVector({ id }: DeleteVectorParams): Promise<void> {
+    await this.storage.removeMessageEmbeddings([id]);
+  }
+
+  // memory filters by thread_id or resource_id only
+  async query({ queryVector, topK = 10, filter }: QueryVectorParams): Promise<QueryResult[]> {
+    const { thread_id, resource_id } = (filter || {}) as { thread_id?: string; resource_id?: string };
+
+    const hits = await this.storage.searchMessagesByVector({
+      embedding: queryVector,
+      topK,
+      threadId: thread_id,
+      resourceId: resource_id,
+    });
+
+    return hits.map(({ message, resourceId, score }) => ({
+      id: message.id,
+      score,
+      metadata: {
+        message_id: message.id,
+        thread_id: message.threadId,
+        resource_id: resourceId,
+      },
+    }));
+  }
+}
@@ -1,21 +1,107 @@
 import neo4j, { Driver } from "neo4j-driver";
+import { MessageList } from "@mastra/core/agent";
+import { InvalidSortOptionError, InvalidUpdateFieldError, Neo4jStorageValidationError } from "./errors";
+import {
+  ChainedEntityExtractor,
+  EntityExtractor,
+  ExtractedEntity,
+  ExtractedRelationship,
+  ExtractedRetraction,
+  normalizeEntityKey,
+  RuleBasedEntityExtractor,
+} from "./entityExtraction";
 
 export interface Neo4jStorageConfig {
   uri: string;
   username: string;
   password: string;
   database?: string;
+  // turns message text into an embedding; when set, messages are embedded on write and
+  // selectBy.vectorSearchString is answered from a vector index over Message nodes
+  embedder?: (text: string) => Promise<number[]>;
+  // dimension of the embedder's vectors, used to create the vector index up front
+  embeddingDimensions?: number;
+  // extractors run in order and their entities and relationships are merged; defaults to the
+  // built-in rules, an empty list turns entity extraction off
+  entityExtractor?: EntityExtractor | EntityExtractor[];
+  // scope of entities whose extractor doesn't name one: "resource" keeps them private to the
+  // resource that mentioned them (the default), "global" shares them across resources
+  entityScope?: "resource" | "global";
+  // how ranked entity queries weigh repetition and age: every mention after the first closes
+  // `reinforcement` of the gap between confidence and 1, and strength halves every `halfLifeDays`
+  // since the last mention. defaults to 0.2 and 90 days
+  entityConfidence?: { reinforcement?: number; halfLifeDays?: number };
 }
 
+// what the entity extractor found in one stored message
+interface MessageExtraction {
+  messageData: any;
+  entities: ExtractedEntity[];
+  relationships: ExtractedRelationship[];
+  retractions: ExtractedRetraction[];
+}
+
+// ai span fields that hold structured data are stored as json strings, timestamps as datetimes
+const AI_SPAN_JSON_FIELDS = ["scope", "attributes", "metadata", "links", "input", "output", "error"];
+const AI_SPAN_DATE_FIELDS = ["startedAt", "endedAt", "createdAt", "updatedAt"];
+
+// telemetry trace fields kept as json strings
+const TRACE_JSON_FIELDS = ["attributes", "status", "events", "links", "other"];
+
+// mastra's eval listeners and telemetry exporter write through the generic table api, their rows are
+// stored as the Eval and Trace nodes that getEvals and getTraces read
+const ROUTED_TABLE_LABELS: Record<string, string> = { mastra_evals: "Eval", mastra_traces: "Trace" };
+
+// fields the update methods may write; metadata and message content are deep merged into what is stored
+const THREAD_UPDATE_FIELDS = ["title", "metadata"];
+const MESSAGE_UPDATE_FIELDS = ["threadId", "resourceId", "role", "type", "content"];
+const RESOURCE_UPDATE_FIELDS = ["workingMemory", "metadata"];
+
+// thread listings can only be ordered by these, anything else would be interpolated into cypher
+const THREAD_ORDER_BY = ["createdAt", "updatedAt"];
+const SORT_DIRECTIONS = ["ASC", "DESC"];
+
+// scope of entities shared by every resource; any other scope is the id of the owning resource
+export const GLOBAL_ENTITY_SCOPE = "__global__";
+
+// upper bound for variable length entity traversals, deeper paths get expensive fast
+const MAX_ENTITY_DEPTH = 5;
+
+// messages backing a relationship as [{id, confidence}]; relationships written before support was
+// tracked fall back to the message that first stated them
+const SUPPORT_OF = (r: string) =>
+  `[i IN CASE WHEN ${r} IS NULL THEN [] ELSE range(0, size(coalesce(${r}.supportingMessageIds, [${r}.sourceMessageId])) - 1) END |
+    {id: coalesce(${r}.supportingMessageIds, [${r}.sourceMessageId])[i],
+     confidence: coalesce(${r}.supportingConfidences, [${r}.confidence])[i]}]`;
+
+// how much each signal contributes to a retrieveMessages score, every signal is normalized to 0..1
+const DEFAULT_RETRIEVAL_WEIGHTS = { entity: 0.4, relationship: 0.2, recency: 0.2, fullText: 0.2 };
+
 export class Neo4jStorage {
   private driver: Driver;
   private database: string;
   private _hasInitialized: boolean;
+  private embedder?: (text: string) => Promise<number[]>;
+  private embeddingDimensions?: number;
+  private messageVectorIndexReady: boolean;
+  private entityExtractor: ChainedEntityExtractor;
+  private entityScope: "resource" | "global";
+  private entityConfidence: { reinforcement: number; halfLifeDays: number };
 
   constructor(config: Neo4jStorageConfig) {
+    this.entityConfidence = this.resolveEntityConfidence(config.entityConfidence);
     this.driver = neo4j.driver(config.uri, neo4j.auth.basic(config.username, config.password));
     this.database = config.database || "neo4j";
     this._hasInitialized = false;
+    this.embedder = config.embedder;
+    this.embeddingDimensions = config.embeddingDimensions;
+    this.messageVectorIndexReady = false;
+    this.entityScope = config.entityScope || "resource";
+    this.entityExtractor = new ChainedEntityExtractor(
+      config.entityExtractor === undefined
+        ? [new RuleBasedEntityExtractor()]
+        : ([] as EntityExtractor[]).concat(config.entityExtractor)
+    );
   }
 
   async init(): Promise<void> {
@@ -38,6 +124,11 @@ export class Neo4jStorage {
         FOR (m:Message) REQUIRE m.id IS UNIQUE
       `);
 
+      await session.run(`
+        CREATE CONSTRAINT resource_id_unique IF NOT EXISTS
+        FOR (r:Resource) REQUIRE r.id IS UNIQUE
+      `);
+
       await session.run(`
         CREATE INDEX thread_resource_id IF NOT EXISTS
         FOR (t:Thread) ON (t.resourceId)
@@ -53,6 +144,138 @@ export class Neo4jStorage {
         FOR (m:Message) ON (m.createdAt)
       `);
 
+      await session.run(`
+        CREATE FULLTEXT INDEX message_content_fulltext IF NOT EXISTS
+        FOR (m:Message) ON EACH [m.content]
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT workflow_run_unique IF NOT EXISTS
+        FOR (w:WorkflowRun) REQUIRE (w.workflowName, w.runId) IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE INDEX workflow_run_resource_id IF NOT EXISTS
+        FOR (w:WorkflowRun) ON (w.resourceId)
+      `);
+
+      await session.run(`
+        CREATE INDEX workflow_run_created_at IF NOT EXISTS
+        FOR (w:WorkflowRun) ON (w.createdAt)
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT score_id_unique IF NOT EXISTS
+        FOR (s:Score) REQUIRE s.id IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE INDEX score_scorer_id IF NOT EXISTS
+        FOR (s:Score) ON (s.scorerId)
+      `);
+
+      await session.run(`
+        CREATE INDEX score_run_id IF NOT EXISTS
+        FOR (s:Score) ON (s.runId)
+      `);
+
+      await session.run(`
+        CREATE INDEX score_entity IF NOT EXISTS
+        FOR (s:Score) ON (s.entityId, s.entityType)
+      `);
+
+      await session.run(`
+        CREATE INDEX eval_agent_name IF NOT EXISTS
+        FOR (e:Eval) ON (e.agentName)
+      `);
+
+      await session.run(`
+        CREATE INDEX eval_created_at IF NOT EXISTS
+        FOR (e:Eval) ON (e.createdAt)
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT ai_span_unique IF NOT EXISTS
+        FOR (s:AISpan) REQUIRE (s.traceId, s.spanId) IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT ai_trace_id_unique IF NOT EXISTS
+        FOR (t:AITrace) REQUIRE t.traceId IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE INDEX ai_span_started_at IF NOT EXISTS
+        FOR (s:AISpan) ON (s.startedAt)
+      `);
+
+      await session.run(`
+        CREATE INDEX ai_span_type IF NOT EXISTS
+        FOR (s:AISpan) ON (s.spanType)
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT trace_id_unique IF NOT EXISTS
+        FOR (t:Trace) REQUIRE t.id IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE INDEX trace_name IF NOT EXISTS
+        FOR (t:Trace) ON (t.name)
+      `);
+
+      await session.run(`
+        CREATE INDEX trace_created_at IF NOT EXISTS
+        FOR (t:Trace) ON (t.createdAt)
+      `);
+
+      await session.run(`
+        CREATE INDEX trace_start_time IF NOT EXISTS
+        FOR (t:Trace) ON (t.startTime)
+      `);
+
+      // entities are unique by normalized key within their scope, the value is only displayed. entities
+      // stored before scoping or keys have neither until migrated
+      await session.run(`DROP CONSTRAINT entity_scope_unique IF EXISTS`);
+
+      await session.run(`
+        CREATE CONSTRAINT entity_key_unique IF NOT EXISTS
+        FOR (e:Entity) REQUIRE (e.scope, e.type, e.key) IS UNIQUE
+      `);
+
+      // every key an entity answers to, its own and those merged into it, points at it from an EntityKey
+      // node. lookups go through this index, and writers lock the key they resolve
+      await session.run(`
+        CREATE CONSTRAINT entity_key_lookup_unique IF NOT EXISTS
+        FOR (k:EntityKey) REQUIRE (k.scope, k.type, k.key) IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT tool_call_id_unique IF NOT EXISTS
+        FOR (tc:ToolCall) REQUIRE tc.toolCallId IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE INDEX tool_call_name IF NOT EXISTS
+        FOR (tc:ToolCall) ON (tc.toolName, tc.resourceId)
+      `);
+
+      // embeddings written before their message exists wait here; the constraint is also the lock that
+      // orders the embedding write against the message write
+      await session.run(`
+        CREATE CONSTRAINT pending_embedding_unique IF NOT EXISTS
+        FOR (p:PendingEmbedding) REQUIRE p.messageId IS UNIQUE
+      `);
+
+      await session.run(`
+        CREATE CONSTRAINT mastra_table_name_unique IF NOT EXISTS
+        FOR (t:MastraTable) REQUIRE t.name IS UNIQUE
+      `);
+
+      if (this.embedder && this.embeddingDimensions) {
+        await this.ensureMessageVectorIndex(this.embeddingDimensions);
+      }
+
       this._hasInitialized = true;
     } finally {
       await session.close();
@@ -76,12 +299,22 @@ export class Neo4jStorage {
     aiTracing?: boolean;
   } {
     return {
-      selectByIncludeResourceScope: false,
-      resourceWorkingMemory: false,
-      hasColumn: false,
-      createTable: false,
+      selectByIncludeResourceScope: true,
+      resourceWorkingMemory: true,
+      hasColumn: true,
+      createTable: true,
       deleteMessages: true,
-      aiTracing: false,
+      aiTracing: true,
+    };
+  }
+
+  get aiTracingStrategy(): {
+    preferred: "realtime" | "batch-with-updates" | "insert-only";
+    supported: Array<"realtime" | "batch-with-updates" | "insert-only">;
+  } {
+    return {
+      preferred: "batch-with-updates",
+      supported: ["realtime", "batch-with-updates", "insert-only"],
     };
   }
 
@@ -98,6 +331,11 @@ export class Neo4jStorage {
     return dateObj ? dateObj.toISOString() : undefined;
   }
 
+  protected toNumber(value: any): number | null {
+    if (value === undefined || value === null) return null;
+    return neo4j.isInt(value) ? value.toNumber() : Number(value);
+  }
+
   protected resolveMessageLimit({ last, defaultLimit }: { last: number | false | undefined; defaultLimit: number }): number {
     if (last === false) return 0;
     if (typeof last === "number") return last;
@@ -150,52 +388,420 @@ export class Neo4jStorage {
     }
   }
 
+  // generic tables are stored as nodes under a label derived from the table name (mastra_foo_bar -> MastraFooBar),
+  // the column schema is kept on a MastraTable node so writes and reads can be typed
   async createTable({ tableName, schema }: { tableName: string; schema: Record<string, any> }): Promise<void> {
-    console.log(`Creating table ${tableName} with schema:`, schema);
+    const label = this.getTableLabel(tableName);
+    Object.keys(schema).forEach((column) => this.assertIdentifier(column));
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const primaryKeys = this.getPrimaryKeys(schema);
+      if (primaryKeys.length > 0) {
+        await session.run(`
+          CREATE CONSTRAINT ${tableName}_pk IF NOT EXISTS
+          FOR (n:${label}) REQUIRE (${primaryKeys.map((column) => `n.${column}`).join(", ")}) IS UNIQUE
+        `);
+      }
+
+      for (const column of this.getIndexedColumns(schema)) {
+        await session.run(`
+          CREATE INDEX ${tableName}_${column} IF NOT EXISTS
+          FOR (n:${label}) ON (n.${column})
+        `);
+      }
+
+      await session.run(
+        `
+        MERGE (t:MastraTable {name: $tableName})
+        SET t.label = $label,
+            t.schema = $schema
+      `,
+        { tableName, label, schema: JSON.stringify(schema) }
+      );
+    } finally {
+      await session.close();
+    }
   }
 
   async clearTable({ tableName }: { tableName: string }): Promise<void> {
-    console.log(`Clearing table ${tableName}`);
+    const label = ROUTED_TABLE_LABELS[tableName] ?? this.getTableLabel(tableName);
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      await session.run(`
+        MATCH (n:${label})
+        DETACH DELETE n
+      `);
+    } finally {
+      await session.close();
+    }
   }
 
   async dropTable({ tableName }: { tableName: string }): Promise<void> {
-    console.log(`Dropping table ${tableName}`);
+    const label = this.getTableLabel(tableName);
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const schema = await this.getTableSchema(session, tableName);
+
+      await session.run(`
+        MATCH (n:${ROUTED_TABLE_LABELS[tableName] ?? label})
+        DETACH DELETE n
+      `);
+
+      if (schema) {
+        await session.run(`DROP CONSTRAINT ${tableName}_pk IF EXISTS`);
+        for (const column of this.getIndexedColumns(schema)) {
+          await session.run(`DROP INDEX ${tableName}_${column} IF EXISTS`);
+        }
+      }
+
+      await session.run(
+        `
+        MATCH (t:MastraTable {name: $tableName})
+        DELETE t
+      `,
+        { tableName }
+      );
+    } finally {
+      await session.close();
+    }
   }
 
+  // adds the listed columns that are not part of the table yet and backfills their defaults on existing nodes
   async alterTable(args: { tableName: string; schema: Record<string, any>; ifNotExists: string[] }): Promise<void> {
-    console.log(`Altering table ${args.tableName}`);
+    const label = this.getTableLabel(args.tableName);
+    args.ifNotExists.forEach((column) => this.assertIdentifier(column));
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const existing = (await this.getTableSchema(session, args.tableName)) || {};
+      const missing = args.ifNotExists.filter((column) => !(column in existing) && args.schema[column]);
+      if (missing.length === 0) return;
+
+      const setClause = missing
+        .map((column) => `n.${column} = coalesce(n.${column}, ${this.getDefaultValue(args.schema[column].type)})`)
+        .join(", ");
+
+      await session.run(`
+        MATCH (n:${label})
+        SET ${setClause}
+      `);
+
+      const schema = { ...existing };
+      for (const column of missing) {
+        schema[column] = args.schema[column];
+      }
+
+      await session.run(
+        `
+        MERGE (t:MastraTable {name: $tableName})
+        SET t.label = $label,
+            t.schema = $schema
+      `,
+        { tableName: args.tableName, label, schema: JSON.stringify(schema) }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  async hasColumn(tableName: string, column: string): Promise<boolean> {
+    const label = this.getTableLabel(tableName);
+    this.assertIdentifier(column);
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const schema = await this.getTableSchema(session, tableName);
+      if (schema && column in schema) return true;
+
+      const result = await session.run(`
+        RETURN EXISTS { MATCH (n:${label}) WHERE n.${column} IS NOT NULL } AS found
+      `);
+
+      return result.records[0]?.get("found") === true;
+    } finally {
+      await session.close();
+    }
   }
 
   async insert({ tableName, record }: { tableName: string; record: Record<string, any> }): Promise<void> {
-    console.log(`Inserting into table ${tableName}:`, record);
+    await this.batchInsert({ tableName, records: [record] });
   }
 
   async batchInsert({ tableName, records }: { tableName: string; records: Record<string, any>[] }): Promise<void> {
-    console.log(`Batch inserting into table ${tableName}:`, records.length, "records");
+    if (tableName === "mastra_evals") {
+      for (const record of records) {
+        await this.saveEval(record);
+      }
+      return;
+    }
+    if (tableName === "mastra_traces") {
+      await this.batchTraceInsert({ records });
+      return;
+    }
+
+    if (records.length === 0) return;
+
+    const label = this.getTableLabel(tableName);
+
+    await this.transaction(async (tx) => {
+      const schema = (await this.getTableSchema(tx, tableName)) || {};
+      const rows = records.map((record) => this.serializeTableRecord(schema, record));
+      const primaryKeys = this.getPrimaryKeys(schema);
+
+      // MERGE can't match on a null property, so a row missing part of its key can't be stored
+      rows.forEach((row) => {
+        const missing = primaryKeys.filter((column) => row[column] === null || row[column] === undefined);
+        if (missing.length > 0) {
+          throw new Neo4jStorageValidationError(
+            `Cannot insert into ${tableName}: primary key column(s) ${missing.join(", ")} missing`
+          );
+        }
+      });
+
+      // rows with a primary key replace the stored row, like insert-or-replace in the sql stores
+      const writeClause =
+        primaryKeys.length > 0
+          ? `MERGE (n:${label} {${primaryKeys.map((column) => `${column}: row.${column}`).join(", ")}})`
+          : `CREATE (n:${label})`;
+
+      await tx.run(
+        `
+        UNWIND $rows AS row
+        ${writeClause}
+        SET n += row
+      `,
+        { rows }
+      );
+    });
   }
 
   async load<R>({ tableName, keys }: { tableName: string; keys: Record<string, any> }): Promise<R | null> {
-    console.log(`Loading from table ${tableName} with keys:`, keys);
-    return null;
+    if (tableName in ROUTED_TABLE_LABELS) return this.loadRoutedRecord(tableName, keys) as Promise<R | null>;
+
+    const label = this.getTableLabel(tableName);
+    Object.keys(keys).forEach((column) => this.assertIdentifier(column));
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const schema = (await this.getTableSchema(session, tableName)) || {};
+      const conditions = Object.keys(keys).map((column) => `n.${column} = $keys.${column}`);
+
+      const result = await session.run(
+        `
+        MATCH (n:${label})
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+        RETURN n
+        LIMIT 1
+      `,
+        { keys: this.serializeTableRecord(schema, keys) }
+      );
+
+      if (result.records.length === 0) {
+        return null;
+      }
+
+      return this.deserializeTableRecord(schema, result.records[0].get("n").properties) as R;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // eval and trace nodes keep camelCase properties, mastra's snake_case columns are looked up by them and
+  // the node comes back the way getEvals and getTraces return it
+  private async loadRoutedRecord(tableName: string, keys: Record<string, any>): Promise<any | null> {
+    const properties: Record<string, any> = {};
+    for (const [column, value] of Object.entries(keys)) {
+      this.assertIdentifier(column);
+      properties[column.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase())] = value;
+    }
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const conditions = Object.keys(properties).map((property) => `n.${property} = $properties.${property}`);
+
+      const result = await session.run(
+        `
+        MATCH (n:${ROUTED_TABLE_LABELS[tableName]})
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+        RETURN n
+        LIMIT 1
+      `,
+        { properties }
+      );
+
+      const node = result.records[0]?.get("n");
+      if (!node) return null;
+
+      return tableName === "mastra_evals" ? this.mapNeo4jNodeToEval(node) : this.mapNeo4jNodeToTrace(node);
+    } finally {
+      await session.close();
+    }
+  }
+
+  private getTableLabel(tableName: string): string {
+    this.assertIdentifier(tableName);
+    return tableName
+      .split("_")
+      .filter(Boolean)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join("");
+  }
+
+  // table and column names end up in cypher text, so only plain identifiers are allowed
+  private assertIdentifier(name: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Invalid table or column name: ${name}`);
+    }
+  }
+
+  private getPrimaryKeys(schema: Record<string, any>): string[] {
+    return Object.keys(schema).filter((column) => schema[column]?.primaryKey);
+  }
+
+  // foreign keys, ids and timestamps are the columns mastra filters and sorts on
+  private getIndexedColumns(schema: Record<string, any>): string[] {
+    return Object.keys(schema).filter(
+      (column) =>
+        !schema[column]?.primaryKey &&
+        (schema[column]?.references || schema[column]?.type === "timestamp" || schema[column]?.type === "uuid")
+    );
+  }
+
+  private async getTableSchema(runner: any, tableName: string): Promise<Record<string, any> | null> {
+    const result = await runner.run(
+      `
+      MATCH (t:MastraTable {name: $tableName})
+      RETURN t.schema AS schema
+    `,
+      { tableName }
+    );
+
+    const schema = result.records[0]?.get("schema");
+    return schema ? JSON.parse(schema) : null;
+  }
+
+  private serializeTableRecord(schema: Record<string, any>, record: Record<string, any>): Record<string, any> {
+    const row: Record<string, any> = {};
+
+    for (const [column, value] of Object.entries(record)) {
+      this.assertIdentifier(column);
+      row[column] = this.serializeColumnValue(schema[column]?.type, value);
+    }
+
+    return row;
+  }
+
+  private serializeColumnValue(type: string | undefined, value: any): any {
+    if (value === undefined || value === null) return null;
+
+    // without a declared column type, infer from the value
+    const neo4jType = type
+      ? this.getSqlType(type)
+      : value instanceof Date
+        ? "DATETIME"
+        : typeof value === "object"
+          ? "MAP"
+          : null;
+
+    switch (neo4jType) {
+      case "DATETIME":
+        return neo4j.types.DateTime.fromStandardDate(this.ensureDate(value) as Date);
+      case "MAP":
+        // neo4j properties cannot hold maps, so structured columns are stored as json
+        return typeof value === "string" ? value : JSON.stringify(value);
+      case "INTEGER":
+        return neo4j.int(Math.trunc(Number(value)));
+      case "FLOAT":
+        return Number(value);
+      case "BOOLEAN":
+        return this.parseBoolean(value);
+      case "STRING":
+        return String(value);
+      default:
+        return value;
+    }
+  }
+
+  // sql stores hand booleans around as 0/1 and "true"/"false", so strings are parsed rather than cast
+  private parseBoolean(value: any): boolean {
+    if (typeof value !== "string") return Boolean(value);
+
+    const normalized = value.trim().toLowerCase();
+    if (["true", "t", "1", "yes"].includes(normalized)) return true;
+    if (["false", "f", "0", "no", ""].includes(normalized)) return false;
+    throw new Neo4jStorageValidationError(`Invalid boolean value "${value}"`);
+  }
+
+  private deserializeTableRecord(schema: Record<string, any>, properties: Record<string, any>): Record<string, any> {
+    const record: Record<string, any> = {};
+
+    for (const [column, value] of Object.entries(properties)) {
+      if (neo4j.isDateTime(value)) {
+        record[column] = new Date(value.toString());
+      } else if (neo4j.isInt(value)) {
+        record[column] = value.toNumber();
+      } else if (schema[column]?.type === "jsonb" && typeof value === "string") {
+        record[column] = JSON.parse(value);
+      } else {
+        record[column] = value;
+      }
+    }
+
+    return record;
   }
 
   async persistWorkflowSnapshot({
     workflowName,
     runId,
+    resourceId,
     snapshot,
   }: {
     workflowName: string;
     runId: string;
+    resourceId?: string;
     snapshot: any;
   }): Promise<void> {
-    console.log(`Persisting workflow snapshot for ${workflowName}:${runId}`);
-  }
+    const session = this.driver.session({ database: this.database });
 
-  async updateWorkflowResults({
-    workflowName,
-    runId,
-    stepId,
-    result,
+    try {
+      const now = new Date().toISOString();
+
+      await session.run(
+        `
+        MERGE (w:WorkflowRun {workflowName: $workflowName, runId: $runId})
+        ON CREATE SET w.createdAt = datetime($now)
+        SET w.snapshot = $snapshot,
+            w.resourceId = coalesce($resourceId, w.resourceId),
+            w.status = $status,
+            w.updatedAt = datetime($now)
+      `,
+        {
+          workflowName,
+          runId,
+          resourceId: resourceId ?? snapshot?.resourceId ?? null,
+          status: snapshot?.status ?? null,
+          snapshot: JSON.stringify(snapshot),
+          now,
+        }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  async updateWorkflowResults({
+    workflowName,
+    runId,
+    stepId,
+    result,
     runtimeContext,
   }: {
     workflowName: string;
@@ -204,8 +810,19 @@ export class Neo4jStorage {
     result: any;
     runtimeContext: Record<string, any>;
   }): Promise<Record<string, any>> {
-    console.log(`Updating workflow results for ${workflowName}:${runId}:${stepId}`);
-    return {};
+    return this.transaction(async (tx) => {
+      // a step can report before the run's first snapshot was persisted, start from an empty one then
+      const snapshot =
+        (await this.lockWorkflowSnapshot(tx, workflowName, runId, { create: true })) ??
+        this.emptyWorkflowSnapshot(runId);
+
+      snapshot.context = { ...(snapshot.context || {}), [stepId]: result };
+      snapshot.runtimeContext = { ...(snapshot.runtimeContext || {}), ...runtimeContext };
+
+      await this.writeWorkflowSnapshot(tx, workflowName, runId, snapshot);
+
+      return JSON.parse(JSON.stringify(snapshot.context));
+    });
   }
 
   async updateWorkflowState({
@@ -222,14 +839,94 @@ export class Neo4jStorage {
       suspendedPaths?: Record<string, number[]>;
       waitingPaths?: Record<string, number[]>;
     };
-  }): Promise<any | undefined> {
-    console.log(`Updating workflow state for ${workflowName}:${runId}`);
-    return undefined;
+  }): Promise<any> {
+    return this.transaction(async (tx) => {
+      // like a step result, a state update can arrive before the run's first snapshot
+      const snapshot =
+        (await this.lockWorkflowSnapshot(tx, workflowName, runId, { create: true })) ??
+        this.emptyWorkflowSnapshot(runId);
+
+      const updated = { ...snapshot, ...opts };
+
+      await this.writeWorkflowSnapshot(tx, workflowName, runId, updated);
+
+      return updated;
+    });
+  }
+
+  private emptyWorkflowSnapshot(runId: string): any {
+    return {
+      context: {},
+      activePaths: [],
+      timestamp: Date.now(),
+      suspendedPaths: {},
+      serializedStepGraph: [],
+      value: {},
+      waitingPaths: {},
+      status: "pending",
+      runId,
+      runtimeContext: {},
+    };
+  }
+
+  // read the stored snapshot while holding the run's write lock until the transaction commits,
+  // so concurrent step updates are serialized instead of overwriting each other. with create, a
+  // missing run is created (without a snapshot) so there is something to lock
+  private async lockWorkflowSnapshot(
+    tx: any,
+    workflowName: string,
+    runId: string,
+    options?: { create?: boolean }
+  ): Promise<any | null> {
+    const result = await tx.run(
+      `
+      ${options?.create ? "MERGE" : "MATCH"} (w:WorkflowRun {workflowName: $workflowName, runId: $runId})
+      ${options?.create ? "ON CREATE SET w.createdAt = datetime(), w.updatedAt = datetime()" : ""}
+      SET w._lock = true
+      REMOVE w._lock
+      RETURN w.snapshot AS snapshot
+    `,
+      { workflowName, runId }
+    );
+
+    const snapshot = result.records[0]?.get("snapshot");
+    return snapshot ? JSON.parse(snapshot) : null;
+  }
+
+  private async writeWorkflowSnapshot(tx: any, workflowName: string, runId: string, snapshot: any): Promise<void> {
+    await tx.run(
+      `
+      MATCH (w:WorkflowRun {workflowName: $workflowName, runId: $runId})
+      SET w.snapshot = $snapshot,
+          w.status = $status,
+          w.updatedAt = datetime()
+    `,
+      {
+        workflowName,
+        runId,
+        status: snapshot?.status ?? null,
+        snapshot: JSON.stringify(snapshot),
+      }
+    );
   }
 
   async loadWorkflowSnapshot({ workflowName, runId }: { workflowName: string; runId: string }): Promise<any | null> {
-    console.log(`Loading workflow snapshot for ${workflowName}:${runId}`);
-    return null;
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (w:WorkflowRun {workflowName: $workflowName, runId: $runId})
+        RETURN w.snapshot AS snapshot
+      `,
+        { workflowName, runId }
+      );
+
+      const snapshot = result.records[0]?.get("snapshot");
+      return snapshot ? JSON.parse(snapshot) : null;
+    } finally {
+      await session.close();
+    }
   }
 
   async getWorkflowRuns(args?: {
@@ -239,23 +936,160 @@ export class Neo4jStorage {
     limit?: number;
     offset?: number;
     resourceId?: string;
-  }): Promise<any> {
-    console.log(`Getting workflow runs with args:`, args);
-    return { runs: [] };
+  }): Promise<{ runs: any[]; total: number }> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const conditions: string[] = [];
+      if (args?.workflowName) conditions.push("w.workflowName = $workflowName");
+      if (args?.resourceId) conditions.push("w.resourceId = $resourceId");
+      if (args?.fromDate) conditions.push("w.createdAt >= datetime($fromDate)");
+      if (args?.toDate) conditions.push("w.createdAt <= datetime($toDate)");
+      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+      const params = {
+        workflowName: args?.workflowName ?? null,
+        resourceId: args?.resourceId ?? null,
+        fromDate: this.serializeDate(args?.fromDate) ?? null,
+        toDate: this.serializeDate(args?.toDate) ?? null,
+      };
+
+      const countResult = await session.run(
+        `
+        MATCH (w:WorkflowRun)
+        ${whereClause}
+        RETURN count(w) as total
+      `,
+        params
+      );
+      const total = countResult.records[0]?.get("total").toNumber() || 0;
+
+      // only page when both bounds are given, matching the other mastra stores
+      const paginate = args?.limit !== undefined && args?.offset !== undefined;
+
+      const result = await session.run(
+        `
+        MATCH (w:WorkflowRun)
+        ${whereClause}
+        RETURN w
+        ORDER BY w.createdAt DESC
+        ${paginate ? "SKIP toInteger($offset) LIMIT toInteger($limit)" : ""}
+      `,
+        { ...params, offset: Math.floor(args?.offset || 0), limit: Math.floor(args?.limit || 0) }
+      );
+
+      const runs = result.records.map((record) => this.mapNeo4jNodeToWorkflowRun(record.get("w")));
+
+      return { runs, total };
+    } finally {
+      await session.close();
+    }
   }
+
   async getWorkflowRunById(args: { runId: string; workflowName?: string }): Promise<any | null> {
-    console.log(`Getting workflow run by ID:`, args);
-    return null;
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (w:WorkflowRun {runId: $runId})
+        WHERE $workflowName IS NULL OR w.workflowName = $workflowName
+        RETURN w
+        ORDER BY w.createdAt DESC
+        LIMIT 1
+      `,
+        { runId: args.runId, workflowName: args.workflowName ?? null }
+      );
+
+      if (result.records.length === 0) {
+        return null;
+      }
+
+      return this.mapNeo4jNodeToWorkflowRun(result.records[0].get("w"));
+    } finally {
+      await session.close();
+    }
   }
 
   async getScoreById({ id }: { id: string }): Promise<any | null> {
-    console.log(`Getting score by ID:`, id);
-    return null;
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (s:Score {id: $id})
+        RETURN s
+      `,
+        { id }
+      );
+
+      if (result.records.length === 0) {
+        return null;
+      }
+
+      return this.mapNeo4jNodeToScore(result.records[0].get("s"));
+    } finally {
+      await session.close();
+    }
   }
 
   async saveScore(score: any): Promise<{ score: any }> {
-    console.log(`Saving score:`, score);
-    return { score };
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const now = new Date().toISOString();
+      const id = score.id || `score_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      // flat properties are what we filter and link on, the full row is kept as json
+      const result = await session.run(
+        `
+        CREATE (s:Score {
+          id: $id,
+          scorerId: $scorerId,
+          runId: $runId,
+          traceId: $traceId,
+          entityId: $entityId,
+          entityType: $entityType,
+          source: $source,
+          score: $score,
+          resourceId: $resourceId,
+          threadId: $threadId,
+          data: $data,
+          createdAt: datetime($now),
+          updatedAt: datetime($now)
+        })
+        WITH s
+        OPTIONAL MATCH (w:WorkflowRun {runId: $runId})
+        WHERE $entityType = 'WORKFLOW' AND w.workflowName = $entityId
+        FOREACH (_ IN CASE WHEN w IS NULL THEN [] ELSE [1] END |
+          MERGE (s)-[:EVALUATES]->(w)
+        )
+        FOREACH (_ IN CASE WHEN $entityType = 'AGENT' AND $entityId IS NOT NULL THEN [1] ELSE [] END |
+          MERGE (a:Agent {id: $entityId})
+          MERGE (s)-[:EVALUATES]->(a)
+        )
+        RETURN s
+      `,
+        {
+          id,
+          scorerId: score.scorerId,
+          runId: score.runId ?? null,
+          traceId: score.traceId ?? null,
+          entityId: score.entityId ?? null,
+          entityType: score.entityType ?? null,
+          source: score.source ?? null,
+          score: typeof score.score === "number" ? score.score : null,
+          resourceId: score.resourceId ?? null,
+          threadId: score.threadId ?? null,
+          data: JSON.stringify(score),
+          now,
+        }
+      );
+
+      return { score: this.mapNeo4jNodeToScore(result.records[0]?.get("s")) };
+    } finally {
+      await session.close();
+    }
   }
 
   async getScoresByScorerId({
@@ -274,16 +1108,19 @@ export class Neo4jStorage {
     pagination: any;
     scores: any[];
   }> {
-    console.log(`Getting scores by scorer ID:`, scorerId);
-    return { pagination, scores: [] };
+    const conditions = ["s.scorerId = $scorerId"];
+    if (entityId) conditions.push("s.entityId = $entityId");
+    if (entityType) conditions.push("s.entityType = $entityType");
+    if (source) conditions.push("s.source = $source");
+
+    return this.getScoresPaginated(conditions, { scorerId, entityId, entityType, source }, pagination);
   }
 
   async getScoresByRunId({ runId, pagination }: { runId: string; pagination: any }): Promise<{
     pagination: any;
     scores: any[];
   }> {
-    console.log(`Getting scores by run ID:`, runId);
-    return { pagination, scores: [] };
+    return this.getScoresPaginated(["s.runId = $runId"], { runId }, pagination);
   }
 
   async getScoresByEntityId({
@@ -298,359 +1135,507 @@ export class Neo4jStorage {
     pagination: any;
     scores: any[];
   }> {
-    console.log(`Getting scores by entity ID:`, entityId);
-    return { pagination, scores: [] };
+    return this.getScoresPaginated(
+      ["s.entityId = $entityId", "s.entityType = $entityType"],
+      { entityId, entityType },
+      pagination
+    );
   }
 
-  async getEvals(options: any): Promise<any> {
-    console.log(`Getting evals with options:`, options);
-    return { evals: [] };
-  }
+  private async getScoresPaginated(
+    conditions: string[],
+    params: Record<string, any>,
+    pagination: { page: number; perPage: number }
+  ): Promise<{
+    pagination: { total: number; page: number; perPage: number; hasMore: boolean };
+    scores: any[];
+  }> {
+    const session = this.driver.session({ database: this.database });
 
-  async getEvalsByAgentName(agentName: string, type?: string): Promise<any[]> {
-    console.log(`Getting evals by agent name:`, agentName);
-    return [];
-  }
+    try {
+      const page = pagination?.page ?? 0;
+      const perPage = pagination?.perPage ?? 10;
+      const whereClause = `WHERE ${conditions.join(" AND ")}`;
 
-  async createAISpan(span: any): Promise<void> {
-    console.log(`Creating AI span:`, span);
-  }
+      const countResult = await session.run(
+        `
+        MATCH (s:Score)
+        ${whereClause}
+        RETURN count(s) as total
+      `,
+        params
+      );
+      const total = countResult.records[0]?.get("total").toNumber() || 0;
 
-  async updateAISpan(params: { spanId: string; traceId: string; updates: any }): Promise<void> {
-    console.log(`Updating AI span:`, params);
-  }
+      const result = await session.run(
+        `
+        MATCH (s:Score)
+        ${whereClause}
+        RETURN s
+        ORDER BY s.createdAt DESC
+        SKIP toInteger($offset)
+        LIMIT toInteger($perPage)
+      `,
+        { ...params, offset: page * perPage, perPage }
+      );
 
-  async getAITrace(traceId: string): Promise<any | null> {
-    console.log(`Getting AI trace:`, traceId);
-    return null;
+      return {
+        scores: result.records.map((record) => this.mapNeo4jNodeToScore(record.get("s"))),
+        pagination: {
+          total,
+          page,
+          perPage,
+          hasMore: perPage > 0 && (page + 1) * perPage < total,
+        },
+      };
+    } finally {
+      await session.close();
+    }
   }
 
-  async getAITracesPaginated(args: any): Promise<{
-    pagination: any;
-    spans: any[];
-  }> {
-    console.log(`Getting AI traces paginated:`, args);
-    return { pagination: {}, spans: [] };
-  }
+  // accepts mastra's stored eval row (snake_case) as well as an EvalRow; threadId/messageId tie the eval to a conversation
+  async saveEval(evalRow: Record<string, any>): Promise<any> {
+    const session = this.driver.session({ database: this.database });
 
-  async batchCreateAISpans(args: { records: any[] }): Promise<void> {
-    console.log(`Batch creating AI spans:`, args.records.length, "records");
-  }
+    try {
+      const testInfo = evalRow.test_info ?? evalRow.testInfo ?? null;
+      const createdAt = this.serializeDate(evalRow.created_at ?? evalRow.createdAt) || new Date().toISOString();
 
-  async batchUpdateAISpans(args: { records: any[] }): Promise<void> {
-    console.log(`Batch updating AI spans:`, args.records.length, "records");
-  }
+      const result = await session.run(
+        `
+        CREATE (e:Eval {
+          id: $id,
+          agentName: $agentName,
+          metricName: $metricName,
+          input: $input,
+          output: $output,
+          result: $result,
+          instructions: $instructions,
+          testInfo: $testInfo,
+          testPath: $testPath,
+          runId: $runId,
+          globalRunId: $globalRunId,
+          threadId: $threadId,
+          messageId: $messageId,
+          createdAt: datetime($createdAt)
+        })
+        WITH e
+        OPTIONAL MATCH (t:Thread {id: $threadId})
+        OPTIONAL MATCH (m:Message {id: $messageId})
+        FOREACH (_ IN CASE WHEN t IS NULL THEN [] ELSE [1] END | MERGE (e)-[:EVALUATES]->(t))
+        FOREACH (_ IN CASE WHEN m IS NULL THEN [] ELSE [1] END | MERGE (e)-[:EVALUATES]->(m))
+        RETURN e
+      `,
+        {
+          id: evalRow.id || `eval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          agentName: evalRow.agent_name ?? evalRow.agentName,
+          metricName: evalRow.metric_name ?? evalRow.metricName,
+          input: evalRow.input ?? null,
+          output: evalRow.output ?? null,
+          result: JSON.stringify(evalRow.result ?? {}),
+          instructions: evalRow.instructions ?? null,
+          testInfo: testInfo ? JSON.stringify(testInfo) : null,
+          testPath: testInfo?.testPath ?? null,
+          runId: evalRow.run_id ?? evalRow.runId ?? null,
+          globalRunId: evalRow.global_run_id ?? evalRow.globalRunId ?? null,
+          threadId: evalRow.thread_id ?? evalRow.threadId ?? null,
+          messageId: evalRow.message_id ?? evalRow.messageId ?? null,
+          createdAt,
+        }
+      );
 
-  async batchDeleteAITraces(args: { traceIds: string[] }): Promise<void> {
-    console.log(`Batch deleting AI traces:`, args.traceIds.length, "traces");
+      return this.mapNeo4jNodeToEval(result.records[0]?.get("e"));
+    } finally {
+      await session.close();
+    }
   }
 
-  async getTraces(args: any): Promise<any[]> {
-    console.log(`Getting traces with args:`, args);
-    return [];
-  }
+  async getEvals(options: {
+    agentName?: string;
+    type?: "test" | "live";
+    page?: number;
+    perPage?: number;
+    dateRange?: {
+      start?: Date;
+      end?: Date;
+    };
+  }): Promise<{
+    evals: any[];
+    total: number;
+    page: number;
+    perPage: number;
+    hasMore: boolean;
+  }> {
+    const session = this.driver.session({ database: this.database });
 
-  async getTracesPaginated(args: any): Promise<any> {
-    console.log(`Getting traces paginated with args:`, args);
-    return { traces: [] };
-  }
+    try {
+      const page = options?.page ?? 0;
+      const perPage = options?.perPage ?? 100;
+      const { whereClause, params } = this.buildEvalFilter(options);
 
-  async batchTraceInsert({ records }: { records: any[] }): Promise<void> {
-    console.log(`Batch inserting traces:`, records.length, "records");
-  }
+      const countResult = await session.run(
+        `
+        MATCH (e:Eval)
+        ${whereClause}
+        RETURN count(e) as total
+      `,
+        params
+      );
+      const total = countResult.records[0]?.get("total").toNumber() || 0;
 
-  get component(): string {
-    return "Neo4jStorage";
-  }
+      const result = await session.run(
+        `
+        MATCH (e:Eval)
+        ${whereClause}
+        RETURN e
+        ORDER BY e.createdAt DESC
+        SKIP toInteger($offset)
+        LIMIT toInteger($perPage)
+      `,
+        { ...params, offset: page * perPage, perPage }
+      );
 
-  get logger(): any {
-    return console;
+      return {
+        evals: result.records.map((record) => this.mapNeo4jNodeToEval(record.get("e"))),
+        total,
+        page,
+        perPage,
+        hasMore: perPage > 0 && (page + 1) * perPage < total,
+      };
+    } finally {
+      await session.close();
+    }
   }
 
-  __setLogger(logger: any): void {}
-
-  __setTelemetry(telemetry: any): void {}
-
-  __setStorage(storage: any): void {}
-
-  __setAgents(agents: any): void {}
-
-  __setTTS(tts: any): void {}
+  async getEvalsByAgentName(agentName: string, type?: "test" | "live"): Promise<any[]> {
+    const session = this.driver.session({ database: this.database });
 
-  __setVectors(vectors: any): void {}
+    try {
+      const { whereClause, params } = this.buildEvalFilter({ agentName, type });
 
-  __setMemory(memory: any): void {}
+      const result = await session.run(
+        `
+        MATCH (e:Eval)
+        ${whereClause}
+        RETURN e
+        ORDER BY e.createdAt DESC
+      `,
+        params
+      );
 
-  get __getTelemetry(): any {
-    return undefined;
+      return result.records.map((record) => this.mapNeo4jNodeToEval(record.get("e")));
+    } finally {
+      await session.close();
+    }
   }
 
-  get experimental_telemetry(): any {
-    return undefined;
-  }
+  // test evals are the ones recorded with a test path, everything else is live
+  private buildEvalFilter(options: {
+    agentName?: string;
+    type?: "test" | "live";
+    dateRange?: { start?: Date; end?: Date };
+  }): { whereClause: string; params: Record<string, any> } {
+    const conditions: string[] = [];
+    if (options?.agentName) conditions.push("e.agentName = $agentName");
+    if (options?.type === "test") conditions.push("e.testPath IS NOT NULL");
+    if (options?.type === "live") conditions.push("e.testPath IS NULL");
+    if (options?.dateRange?.start) conditions.push("e.createdAt >= datetime($start)");
+    if (options?.dateRange?.end) conditions.push("e.createdAt <= datetime($end)");
 
-  async close(): Promise<void> {
-    await this.driver.close();
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      params: {
+        agentName: options?.agentName ?? null,
+        start: this.serializeDate(options?.dateRange?.start) ?? null,
+        end: this.serializeDate(options?.dateRange?.end) ?? null,
+      },
+    };
   }
 
-  async saveThread(thread: any): Promise<any> {
-    return this.createThread(thread);
+  async createAISpan(span: any): Promise<void> {
+    await this.batchCreateAISpans({ records: [span] });
   }
 
-  async getThread(threadId: string): Promise<any | null> {
-    return this.getThreadById({ threadId });
+  async updateAISpan(params: { spanId: string; traceId: string; updates: any }): Promise<void> {
+    await this.batchUpdateAISpans({ records: [params] });
   }
 
-  async deleteThread({ threadId }: { threadId: string }): Promise<void> {
-    return this.deleteThreadById(threadId);
-  }
+  async getAITrace(traceId: string): Promise<any | null> {
+    const session = this.driver.session({ database: this.database });
 
-  async saveMessages(args: { messages: any[]; format?: "v1" | "v2" }): Promise<any[]> {
-    let messageArray: any[] = [];
+    try {
+      const result = await session.run(
+        `
+        MATCH (:AITrace {traceId: $traceId})<-[:PART_OF]-(s:AISpan)
+        RETURN s
+        ORDER BY s.startedAt ASC
+      `,
+        { traceId }
+      );
 
-    if (args.messages && Array.isArray(args.messages)) {
-      messageArray = args.messages;
-    } else {
-      messageArray = [args.messages];
-    }
+      if (result.records.length === 0) {
+        return null;
+      }
 
-    const results = [];
-    for (const message of messageArray) {
-      const result = await this.createMessage(message);
-      results.push(result);
+      return {
+        traceId,
+        spans: result.records.map((record) => this.mapNeo4jNodeToAISpan(record.get("s"))),
+      };
+    } finally {
+      await session.close();
     }
-    return results;
   }
 
-  async getMessages(args: {
-    threadId: string;
-    resourceId?: string;
-    selectBy?: {
-      vectorSearchString?: string;
-      last?: number | false;
-      include?: {
-        id: string;
-        threadId?: string;
-        withPreviousMessages?: number;
-        withNextMessages?: number;
-      }[];
-      pagination?: {
-        page?: number;
-        perPage?: number;
-        dateRange?: {
-          start?: Date;
-          end?: Date;
-        };
-      };
+  // pages over root spans, one per trace
+  async getAITracesPaginated(args: {
+    filters?: {
+      name?: string;
+      spanType?: string;
+      entityId?: string;
+      entityType?: string;
     };
-    threadConfig?: any;
-    format?: "v1" | "v2";
-  }): Promise<any[]> {
-    console.log("🔍 Neo4jStorage.getMessages called with:", JSON.stringify(args, null, 2));
-
-    const last = args.selectBy?.last;
-    const limit = typeof last === "number" ? last : 100;
-
-    console.log("🔍 getMessages: threadId =", args.threadId, "limit =", limit);
-
-    const messages = await this.getMessagesByThreadId(args.threadId, { limit });
-    console.log("🔍 getMessages: retrieved", messages.length, "messages");
-
-    return messages;
-  }
-  async getMessagesPaginated(args: {
-    threadId: string;
-    resourceId?: string;
-    selectBy?: {
-      vectorSearchString?: string;
-      last?: number | false;
-      include?: {
-        id: string;
-        threadId?: string;
-        withPreviousMessages?: number;
-        withNextMessages?: number;
-      }[];
-      pagination?: {
-        page?: number;
-        perPage?: number;
-        dateRange?: {
-          start?: Date;
-          end?: Date;
-        };
+    pagination?: {
+      page?: number;
+      perPage?: number;
+      dateRange?: {
+        start?: Date;
+        end?: Date;
       };
     };
-    threadConfig?: any;
-    format?: "v1" | "v2";
   }): Promise<{
-    messages: any[];
-    total: number;
-    page: number;
-    perPage: number;
-    hasMore: boolean;
+    pagination: { total: number; page: number; perPage: number; hasMore: boolean };
+    spans: any[];
   }> {
-    const page = args.selectBy?.pagination?.page || 0;
-    const perPage = args.selectBy?.pagination?.perPage || 10;
-    const offset = page * perPage;
-
-    // Get total count
     const session = this.driver.session({ database: this.database });
+
     try {
+      const { filters, pagination } = args || {};
+      const page = pagination?.page ?? 0;
+      const perPage = pagination?.perPage ?? 10;
+
+      const conditions = ["s.parentSpanId IS NULL"];
+      if (filters?.name) conditions.push("s.name = $name");
+      if (filters?.spanType) conditions.push("s.spanType = $spanType");
+      if (filters?.entityId) conditions.push("s.entityId = $entityId");
+      if (filters?.entityType) conditions.push("s.entityType = $entityType");
+      if (pagination?.dateRange?.start) conditions.push("s.startedAt >= datetime($start)");
+      if (pagination?.dateRange?.end) conditions.push("s.startedAt <= datetime($end)");
+      const whereClause = `WHERE ${conditions.join(" AND ")}`;
+
+      const params = {
+        name: filters?.name ?? null,
+        spanType: filters?.spanType ?? null,
+        entityId: filters?.entityId ?? null,
+        entityType: filters?.entityType ?? null,
+        start: this.serializeDate(pagination?.dateRange?.start) ?? null,
+        end: this.serializeDate(pagination?.dateRange?.end) ?? null,
+      };
+
       const countResult = await session.run(
         `
-          MATCH (t:Thread {id: $threadId})-[r:CONTAINS]->(m:Message)
-          RETURN count(m) as total
-        `,
-        { threadId: args.threadId }
+        MATCH (s:AISpan)
+        ${whereClause}
+        RETURN count(s) as total
+      `,
+        params
       );
       const total = countResult.records[0]?.get("total").toNumber() || 0;
 
-      // Get paginated messages
-      const messages = await this.getMessagesByThreadId(args.threadId, {
-        limit: perPage,
-        offset,
-      });
-
-      const hasMore = (page + 1) * perPage < total;
+      const result = await session.run(
+        `
+        MATCH (s:AISpan)
+        ${whereClause}
+        RETURN s
+        ORDER BY s.startedAt DESC
+        SKIP toInteger($offset)
+        LIMIT toInteger($perPage)
+      `,
+        { ...params, offset: page * perPage, perPage }
+      );
 
       return {
-        messages,
-        total,
-        page,
-        perPage,
-        hasMore,
+        spans: result.records.map((record) => this.mapNeo4jNodeToAISpan(record.get("s"))),
+        pagination: {
+          total,
+          page,
+          perPage,
+          hasMore: perPage > 0 && (page + 1) * perPage < total,
+        },
       };
     } finally {
       await session.close();
     }
   }
 
-  async getMessagesById({ messageIds, format }: { messageIds: string[]; format?: "v1" | "v2" }): Promise<any[]> {
-    if (messageIds.length === 0) return [];
-
-    const session = this.driver.session({ database: this.database });
-    try {
-      const result = await session.run(
-        `
-        MATCH (m:Message)
-        WHERE m.id IN $messageIds
-        RETURN m
-        ORDER BY m.createdAt ASC
-      `,
-        { messageIds }
-      );
+  async batchCreateAISpans(args: { records: any[] }): Promise<void> {
+    if (args.records.length === 0) return;
 
-      return result.records.map((record) => this.mapNeo4jNodeToMessage(record.get("m")));
-    } finally {
-      await session.close();
+    for (const record of args.records) {
+      if (!record.spanId || !record.traceId) {
+        throw new Error("AI span requires both spanId and traceId");
+      }
     }
-  }
 
-  async deleteMessage(messageId: string): Promise<void> {
-    return this.deleteMessageById(messageId);
+    const spans = args.records.map((record) => ({
+      traceId: record.traceId,
+      spanId: record.spanId,
+      ...this.serializeAISpanFields(record),
+    }));
+
+    // spans can arrive before their parent, so link in both directions
+    await this.transaction((tx) =>
+      tx.run(
+        `
+        UNWIND $spans AS span
+        MERGE (trace:AITrace {traceId: span.traceId})
+        CREATE (s:AISpan {traceId: span.traceId, spanId: span.spanId})
+        SET s += span.properties,
+            s.startedAt = datetime(span.dates.startedAt),
+            s.endedAt = datetime(span.dates.endedAt),
+            s.createdAt = coalesce(datetime(span.dates.createdAt), datetime()),
+            s.updatedAt = datetime(span.dates.updatedAt)
+        CREATE (s)-[:PART_OF]->(trace)
+        WITH s
+        OPTIONAL MATCH (parent:AISpan {traceId: s.traceId, spanId: s.parentSpanId})
+        FOREACH (_ IN CASE WHEN parent IS NULL THEN [] ELSE [1] END | MERGE (s)-[:CHILD_OF]->(parent))
+        WITH DISTINCT s
+        OPTIONAL MATCH (child:AISpan {traceId: s.traceId, parentSpanId: s.spanId})
+        FOREACH (_ IN CASE WHEN child IS NULL THEN [] ELSE [1] END | MERGE (child)-[:CHILD_OF]->(s))
+      `,
+        { spans }
+      )
+    );
   }
 
-  async createThread(thread: any): Promise<any> {
-    const session = this.driver.session({ database: this.database });
+  async batchUpdateAISpans(args: { records: { traceId: string; spanId: string; updates: any }[] }): Promise<void> {
+    if (args.records.length === 0) return;
 
-    try {
-      const now = new Date();
-      const threadData = {
-        id: thread.id || `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        resourceId: thread.resourceId || "default",
-        title: thread.title || "Untitled Thread",
-        createdAt: thread.createdAt || now,
-        updatedAt: thread.updatedAt || now,
-        metadata: thread.metadata || {},
-      };
+    const spans = args.records.map((record) => ({
+      traceId: record.traceId,
+      spanId: record.spanId,
+      ...this.serializeAISpanFields(record.updates || {}),
+    }));
 
-      const result = await session.run(
+    await this.transaction(async (tx) => {
+      const result = await tx.run(
         `
-        CREATE (t:Thread {
-          id: $id,
-          resourceId: $resourceId,
-          title: $title,
-          createdAt: datetime($createdAt),
-          updatedAt: datetime($updatedAt),
-          metadata: $metadata
-        })
-        RETURN t
+        UNWIND $spans AS span
+        MATCH (s:AISpan {traceId: span.traceId, spanId: span.spanId})
+        SET s += span.properties,
+            s.startedAt = coalesce(datetime(span.dates.startedAt), s.startedAt),
+            s.endedAt = coalesce(datetime(span.dates.endedAt), s.endedAt),
+            s.updatedAt = coalesce(datetime(span.dates.updatedAt), datetime())
+        RETURN count(s) as updated
       `,
-        {
-          id: threadData.id,
-          resourceId: threadData.resourceId,
-          title: threadData.title,
-          createdAt: threadData.createdAt.toISOString(),
-          updatedAt: threadData.updatedAt.toISOString(),
-          metadata: JSON.stringify(threadData.metadata),
-        }
+        { spans }
       );
 
-      return this.mapNeo4jNodeToThread(result.records[0]?.get("t"));
-    } finally {
-      await session.close();
-    }
+      const updated = result.records[0]?.get("updated").toNumber() || 0;
+      if (updated !== spans.length) {
+        throw new Error(`AI span not found for update (${spans.length - updated} of ${spans.length} missing)`);
+      }
+    });
   }
 
-  async getThreadById({ threadId }: { threadId: string }): Promise<any | null> {
-    const session = this.driver.session({ database: this.database });
+  async batchDeleteAITraces(args: { traceIds: string[] }): Promise<void> {
+    if (args.traceIds.length === 0) return;
 
-    try {
-      const result = await session.run(
+    await this.transaction((tx) =>
+      tx.run(
         `
-        MATCH (t:Thread {id: $threadId})
-        RETURN t
+        MATCH (t:AITrace)
+        WHERE t.traceId IN $traceIds
+        OPTIONAL MATCH (t)<-[:PART_OF]-(s:AISpan)
+        DETACH DELETE s, t
       `,
-        { threadId }
-      );
+        { traceIds: args.traceIds }
+      )
+    );
+  }
 
-      if (result.records.length === 0) {
-        return null;
+  // split span fields into plain node properties and datetimes; only keys present on the input are included
+  private serializeAISpanFields(fields: Record<string, any>): {
+    properties: Record<string, any>;
+    dates: Record<string, string | null>;
+  } {
+    const properties: Record<string, any> = {};
+    const dates: Record<string, string | null> = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (key === "traceId" || key === "spanId") continue;
+
+      if (AI_SPAN_DATE_FIELDS.includes(key)) {
+        dates[key] = this.serializeDate(value) ?? null;
+      } else if (AI_SPAN_JSON_FIELDS.includes(key)) {
+        properties[key] = value === undefined || value === null ? null : JSON.stringify(value);
+      } else {
+        properties[key] = value ?? null;
       }
+    }
 
-      return this.mapNeo4jNodeToThread(result.records[0].get("t"));
-    } finally {
-      await session.close();
+    // root spans carry the agent or workflow they ran for, keep it queryable
+    if (fields.attributes?.agentId) {
+      properties.entityType = "agent";
+      properties.entityId = fields.attributes.agentId;
+    } else if (fields.attributes?.workflowId) {
+      properties.entityType = "workflow";
+      properties.entityId = fields.attributes.workflowId;
     }
+
+    return { properties, dates };
   }
 
-  async getThreadsByResourceId({
-    resourceId,
-    orderBy,
-    sortDirection,
-  }: {
-    resourceId: string;
-    orderBy?: string;
-    sortDirection?: string;
+  async getTraces(args: {
+    name?: string;
+    scope?: string;
+    page: number;
+    perPage: number;
+    attributes?: Record<string, string>;
+    filters?: Record<string, any>;
+    fromDate?: Date;
+    toDate?: Date;
   }): Promise<any[]> {
     const session = this.driver.session({ database: this.database });
 
     try {
-      const finalOrderBy = orderBy || "createdAt";
-      const finalSortDirection = sortDirection || "DESC";
+      const page = args?.page ?? 0;
+      const perPage = args?.perPage ?? 100;
+      const { whereClause, params } = this.buildTraceFilter({
+        ...args,
+        dateRange: { start: args?.fromDate, end: args?.toDate },
+      });
 
       const result = await session.run(
         `
-        MATCH (t:Thread {resourceId: $resourceId})
+        MATCH (t:Trace)
+        ${whereClause}
         RETURN t
-        ORDER BY t.${finalOrderBy} ${finalSortDirection}
+        ORDER BY t.startTime DESC
+        SKIP toInteger($offset)
+        LIMIT toInteger($perPage)
       `,
-        { resourceId }
+        { ...params, offset: page * perPage, perPage }
       );
 
-      return result.records.map((record) => this.mapNeo4jNodeToThread(record.get("t")));
+      return result.records.map((record) => this.mapNeo4jNodeToTrace(record.get("t")));
     } finally {
       await session.close();
     }
   }
 
-  async getThreadsByResourceIdPaginated(args: {
-    resourceId: string;
-    page: number;
-    perPage: number;
-    orderBy?: string;
-    sortDirection?: string;
+  async getTracesPaginated(args: {
+    name?: string;
+    scope?: string;
+    attributes?: Record<string, string>;
+    filters?: Record<string, any>;
+    page?: number;
+    perPage?: number;
+    dateRange?: {
+      start?: Date;
+      end?: Date;
+    };
   }): Promise<{
-    threads: any[];
+    traces: any[];
     total: number;
     page: number;
     perPage: number;
@@ -659,225 +1644,1117 @@ export class Neo4jStorage {
     const session = this.driver.session({ database: this.database });
 
     try {
-      const orderBy = args.orderBy || "createdAt";
-      const sortDirection = args.sortDirection || "DESC";
-      const offset = args.page * args.perPage;
+      const page = args?.page ?? 0;
+      const perPage = args?.perPage ?? 10;
+      const { whereClause, params } = this.buildTraceFilter(args || {});
 
       const countResult = await session.run(
         `
-        MATCH (t:Thread {resourceId: $resourceId})
+        MATCH (t:Trace)
+        ${whereClause}
         RETURN count(t) as total
       `,
-        { resourceId: args.resourceId }
+        params
       );
       const total = countResult.records[0]?.get("total").toNumber() || 0;
 
       const result = await session.run(
         `
-        MATCH (t:Thread {resourceId: $resourceId})
+        MATCH (t:Trace)
+        ${whereClause}
         RETURN t
-        ORDER BY t.${orderBy} ${sortDirection}
-        SKIP $offset
-        LIMIT $perPage
+        ORDER BY t.startTime DESC
+        SKIP toInteger($offset)
+        LIMIT toInteger($perPage)
       `,
-        {
-          resourceId: args.resourceId,
-          offset,
-          perPage: args.perPage,
-        }
+        { ...params, offset: page * perPage, perPage }
       );
 
-      const threads = result.records.map((record) => this.mapNeo4jNodeToThread(record.get("t")));
-      const hasMore = (args.page + 1) * args.perPage < total;
-
       return {
-        threads,
+        traces: result.records.map((record) => this.mapNeo4jNodeToTrace(record.get("t"))),
         total,
-        page: args.page,
-        perPage: args.perPage,
-        hasMore,
+        page,
+        perPage,
+        hasMore: perPage > 0 && (page + 1) * perPage < total,
       };
     } finally {
       await session.close();
     }
   }
 
-  async updateThread(threadId: string, updates: any): Promise<any> {
-    const session = this.driver.session({ database: this.database });
-
-    try {
-      const setClause = Object.keys(updates)
-        .filter((key) => key !== "id")
-        .map((key) => `t.${key} = $${key}`)
-        .join(", ");
-
-      const result = await session.run(
-        `
-        MATCH (t:Thread {id: $threadId})
-        SET ${setClause}, t.updatedAt = datetime()
-        RETURN t
-      `,
-        { threadId, ...updates }
-      );
+  async batchTraceInsert({ records }: { records: any[] }): Promise<void> {
+    if (records.length === 0) return;
+
+    const traces = records.map((record) => {
+      const properties: Record<string, any> = {
+        parentSpanId: record.parentSpanId ?? null,
+        name: record.name,
+        traceId: record.traceId,
+        scope: record.scope,
+        kind: record.kind ?? null,
+      };
 
-      if (result.records.length === 0) {
-        return null;
+      for (const field of TRACE_JSON_FIELDS) {
+        const value = record[field];
+        properties[field] =
+          value === undefined || value === null || typeof value === "string" ? (value ?? null) : JSON.stringify(value);
       }
 
-      return this.mapNeo4jNodeToThread(result.records[0].get("t"));
-    } finally {
-      await session.close();
-    }
-  }
+      // attributes are also flattened onto the node so they can be filtered on
+      const attributes =
+        typeof record.attributes === "string" ? JSON.parse(record.attributes || "{}") : record.attributes || {};
+      const attributeProperties: Record<string, string> = {};
+      for (const [key, value] of Object.entries(attributes)) {
+        attributeProperties[`attributes.${key}`] = typeof value === "string" ? value : JSON.stringify(value);
+      }
 
-  async deleteThreadById(threadId: string): Promise<void> {
-    const session = this.driver.session({ database: this.database });
+      return {
+        id: record.id,
+        properties,
+        attributeProperties,
+        startTime: record.startTime ?? null,
+        endTime: record.endTime ?? null,
+        createdAt: this.serializeDate(record.createdAt) || new Date().toISOString(),
+      };
+    });
 
-    try {
-      await session.run(
+    await this.transaction((tx) =>
+      tx.run(
         `
-        MATCH (t:Thread {id: $threadId})
-        DETACH DELETE t
+        UNWIND $traces AS trace
+        MERGE (t:Trace {id: trace.id})
+        SET t += trace.properties,
+            t += trace.attributeProperties,
+            t.startTime = toInteger(trace.startTime),
+            t.endTime = toInteger(trace.endTime),
+            t.createdAt = datetime(trace.createdAt)
       `,
-        { threadId }
-      );
-    } finally {
-      await session.close();
+        { traces }
+      )
+    );
+  }
+
+  private buildTraceFilter(args: {
+    name?: string;
+    scope?: string;
+    attributes?: Record<string, string>;
+    filters?: Record<string, any>;
+    dateRange?: { start?: Date; end?: Date };
+  }): { whereClause: string; params: Record<string, any> } {
+    const conditions: string[] = [];
+    if (args.name) conditions.push("t.name STARTS WITH $name");
+    if (args.scope) conditions.push("t.scope = $scope");
+    if (args.attributes && Object.keys(args.attributes).length > 0) {
+      conditions.push("all(key IN keys($attributes) WHERE t['attributes.' + key] = $attributes[key])");
     }
+    if (args.filters && Object.keys(args.filters).length > 0) {
+      conditions.push("all(key IN keys($filters) WHERE t[key] = $filters[key])");
+    }
+    if (args.dateRange?.start) conditions.push("t.createdAt >= datetime($start)");
+    if (args.dateRange?.end) conditions.push("t.createdAt <= datetime($end)");
+
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "",
+      params: {
+        name: args.name ?? null,
+        scope: args.scope ?? null,
+        attributes: args.attributes ?? {},
+        filters: args.filters ?? {},
+        start: this.serializeDate(args.dateRange?.start) ?? null,
+        end: this.serializeDate(args.dateRange?.end) ?? null,
+      },
+    };
   }
 
-  async createMessage(message: any): Promise<any> {
-    const session = this.driver.session({ database: this.database });
+  get component(): string {
+    return "Neo4jStorage";
+  }
 
-    try {
-      const now = new Date();
+  get logger(): any {
+    return console;
+  }
 
-      let content = "";
-      if (message.content) {
-        if (typeof message.content === "string") {
-          content = message.content;
-        } else if (message.content.content) {
-          content = message.content.content;
-        } else if (message.content.parts && message.content.parts[0] && message.content.parts[0].text) {
-          content = message.content.parts[0].text;
-        }
-      }
+  __setLogger(logger: any): void {}
 
-      const messageData = {
-        id: message.id || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        threadId: message.threadId || "default",
-        role: message.role || "user",
-        content: content,
-        createdAt: message.createdAt || now,
-        metadata: message.metadata || {},
+  __setTelemetry(telemetry: any): void {}
+
+  __setStorage(storage: any): void {}
+
+  __setAgents(agents: any): void {}
+
+  __setTTS(tts: any): void {}
+
+  __setVectors(vectors: any): void {}
+
+  __setMemory(memory: any): void {}
+
+  get __getTelemetry(): any {
+    return undefined;
+  }
+
+  get experimental_telemetry(): any {
+    return undefined;
+  }
+
+  async close(): Promise<void> {
+    await this.driver.close();
+  }
+
+  // mastra passes { thread }, older callers pass the thread itself
+  async saveThread(args: any): Promise<any> {
+    return this.createThread(args?.thread ?? args);
+  }
+
+  async getThread(threadId: string): Promise<any | null> {
+    return this.getThreadById({ threadId });
+  }
+
+  async deleteThread({ threadId }: { threadId: string }): Promise<void> {
+    await this.deleteThreadById(threadId);
+  }
+
+  // the whole batch is written in one transaction. messages whose id already exists are updated, as mastra
+  // re-saves a message while it grows across steps; upsert: false only creates and fails on existing ids
+  async saveMessages(args: { messages: any[]; format?: "v1" | "v2"; upsert?: boolean }): Promise<any[]> {
+    let messageArray: any[] = [];
+
+    if (args.messages && Array.isArray(args.messages)) {
+      messageArray = args.messages;
+    } else {
+      messageArray = [args.messages];
+    }
+
+    const results = await this.writeMessages(messageArray, { upsert: args.upsert });
+    return this.formatMessages(results, args.format);
+  }
+
+  async getMessages(args: {
+    threadId: string;
+    resourceId?: string;
+    selectBy?: {
+      vectorSearchString?: string;
+      last?: number | false;
+      include?: {
+        id: string;
+        threadId?: string;
+        withPreviousMessages?: number;
+        withNextMessages?: number;
+      }[];
+      pagination?: {
+        page?: number;
+        perPage?: number;
+        dateRange?: {
+          start?: Date;
+          end?: Date;
+        };
+      };
+    };
+    threadConfig?: any;
+    format?: "v1" | "v2";
+  }): Promise<any[]> {
+    console.log("🔍 Neo4jStorage.getMessages called with:", JSON.stringify(args, null, 2));
+
+    const limit = this.resolveMessageLimit({ last: args.selectBy?.last, defaultLimit: 100 });
+
+    console.log("🔍 getMessages: threadId =", args.threadId, "limit =", limit);
+
+    // "last N" means the most recent N, still returned oldest first; last: false selects none
+    const threadMessages =
+      limit > 0
+        ? await this.getMessagesByThreadId(args.threadId, {
+            limit,
+            latest: true,
+            dateRange: args.selectBy?.pagination?.dateRange,
+          })
+        : [];
+
+    const include = [...(args.selectBy?.include || []), ...(await this.getSemanticRecallIncludes(args))];
+    const messages =
+      include.length > 0
+        ? this.mergeMessages(threadMessages, await this.getIncludedMessages(include, args.resourceId))
+        : threadMessages;
+    console.log("🔍 getMessages: retrieved", messages.length, "messages");
+
+    return this.formatMessages(messages, args.format);
+  }
+
+  // without an embedder, vectorSearchString is left to mastra's own vector store. memory with a vector
+  // store (e.g. Neo4jMessageVector) already searched and passes its hits as include, don't search twice
+  private async getSemanticRecallIncludes(args: {
+    threadId: string;
+    resourceId?: string;
+    selectBy?: { vectorSearchString?: string; include?: unknown[] };
+    threadConfig?: any;
+  }): Promise<{ id: string; threadId?: string; withPreviousMessages?: number; withNextMessages?: number }[]> {
+    const searchString = args.selectBy?.vectorSearchString;
+    if (!this.embedder || !searchString || (args.selectBy?.include?.length ?? 0) > 0) return [];
+
+    // same defaults as mastra memory: top 2 hits with 2 messages of context either side
+    const recall = typeof args.threadConfig?.semanticRecall === "object" ? args.threadConfig.semanticRecall : {};
+    const topK = recall.topK ?? 2;
+    const range = recall.messageRange ?? { before: 2, after: 2 };
+    const resourceScope = recall.scope === "resource" && !!args.resourceId;
+
+    const hits = await this.searchMessagesByVector({
+      embedding: await this.embedder(searchString),
+      topK,
+      threadId: resourceScope ? undefined : args.threadId,
+      resourceId: resourceScope ? args.resourceId : undefined,
+    });
+
+    return hits.map(({ message }) => ({
+      id: message.id,
+      threadId: message.threadId,
+      withPreviousMessages: typeof range === "number" ? range : range.before,
+      withNextMessages: typeof range === "number" ? range : range.after,
+    }));
+  }
+
+  async ensureMessageVectorIndex(dimension: number): Promise<void> {
+    if (this.messageVectorIndexReady) return;
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error(`Invalid embedding dimension: ${dimension}`);
+    }
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      await session.run(`
+        CREATE VECTOR INDEX message_embedding IF NOT EXISTS
+        FOR (m:Message) ON (m.embedding)
+        OPTIONS { indexConfig: { \`vector.dimensions\`: ${dimension}, \`vector.similarity_function\`: 'cosine' } }
+      `);
+      await session.run(`CALL db.awaitIndex('message_embedding')`);
+
+      // IF NOT EXISTS keeps an index created for another embedder, whose vectors can't be queried with these
+      const existing = await session.run(`
+        SHOW VECTOR INDEXES YIELD name, options
+        WHERE name = 'message_embedding'
+        RETURN options.indexConfig['vector.dimensions'] AS dimensions
+      `);
+      const dimensions = this.toNumber(existing.records[0]?.get("dimensions"));
+      if (dimensions !== null && dimensions !== dimension) {
+        throw new Error(
+          `Vector index message_embedding has ${dimensions} dimensions but the embeddings have ${dimension}; ` +
+            `drop the index or use an embedder with matching dimensions`
+        );
+      }
+
+      this.messageVectorIndexReady = true;
+    } finally {
+      await session.close();
+    }
+  }
+
+  // memory upserts vectors while the messages are still being saved, so an embedding whose message
+  // isn't there yet is parked as a PendingEmbedding that writeMessages picks up. both sides MERGE the
+  // pending node first, whichever comes second waits for the other and sees its write
+  async setMessageEmbeddings(entries: { messageId: string; embedding: number[] }[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    await this.ensureMessageVectorIndex(entries[0].embedding.length);
+
+    await this.transaction((tx) =>
+      tx.run(
+        `
+        UNWIND $entries AS entry
+        MERGE (p:PendingEmbedding {messageId: entry.messageId})
+        SET p.embedding = entry.embedding
+        WITH p, entry
+        OPTIONAL MATCH (m:Message {id: entry.messageId})
+        FOREACH (_ IN CASE WHEN m IS NULL THEN [] ELSE [1] END |
+          SET m.embedding = entry.embedding
+          DELETE p
+        )
+      `,
+        { entries }
+      )
+    );
+  }
+
+  async removeMessageEmbeddings(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      await session.run(
+        `
+        MATCH (m:Message)
+        WHERE m.id IN $messageIds
+        REMOVE m.embedding
+        WITH count(*) AS removed
+        MATCH (p:PendingEmbedding)
+        WHERE p.messageId IN $messageIds
+        DELETE p
+      `,
+        { messageIds }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  // the vector index cannot filter, so over-fetch candidates and narrow them to the thread or resource
+  async searchMessagesByVector({
+    embedding,
+    topK,
+    threadId,
+    resourceId,
+  }: {
+    embedding: number[];
+    topK: number;
+    threadId?: string;
+    resourceId?: string;
+  }): Promise<{ message: any; resourceId: string; score: number }[]> {
+    await this.ensureMessageVectorIndex(embedding.length);
+
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        CALL db.index.vector.queryNodes('message_embedding', toInteger($candidates), $embedding)
+        YIELD node AS m, score
+        MATCH (t:Thread {id: m.threadId})
+        WHERE ($threadId IS NULL OR m.threadId = $threadId)
+          AND ($resourceId IS NULL OR t.resourceId = $resourceId)
+        RETURN m, t.resourceId AS resourceId, score
+        ORDER BY score DESC
+        LIMIT toInteger($topK)
+      `,
+        {
+          embedding,
+          candidates: Math.max(topK * 10, 50),
+          topK,
+          threadId: threadId ?? null,
+          resourceId: resourceId ?? null,
+        }
+      );
+
+      return result.records.map((record) => ({
+        message: this.mapNeo4jNodeToMessage(record.get("m")),
+        resourceId: record.get("resourceId"),
+        score: record.get("score"),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  // each included message comes back with its neighbours from its own thread; when a resource is given,
+  // only threads of that resource are searched
+  private async getIncludedMessages(
+    include: { id: string; threadId?: string; withPreviousMessages?: number; withNextMessages?: number }[],
+    resourceId?: string
+  ): Promise<any[]> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        UNWIND $include AS inc
+        MATCH (target:Message {id: inc.id})
+        MATCH (t:Thread {id: target.threadId})
+        WHERE $resourceId IS NULL OR t.resourceId = $resourceId
+        MATCH (t)-[:CONTAINS]->(m:Message)
+        WITH inc, target, m
+        ORDER BY m.createdAt ASC
+        WITH inc, target, collect(m) AS thread
+        WITH inc, thread, [i IN range(0, size(thread) - 1) WHERE thread[i].id = target.id][0] AS position
+        WITH thread,
+             CASE WHEN position - inc.previous < 0 THEN 0 ELSE position - inc.previous END AS first,
+             position + inc.next + 1 AS last
+        UNWIND thread[first..last] AS m
+        RETURN DISTINCT m
+      `,
+        {
+          include: include.map((item) => ({
+            id: item.id,
+            previous: Math.max(0, Math.floor(item.withPreviousMessages || 0)),
+            next: Math.max(0, Math.floor(item.withNextMessages || 0)),
+          })),
+          resourceId: resourceId ?? null,
+        }
+      );
+
+      return result.records.map((record) => this.mapNeo4jNodeToMessage(record.get("m")));
+    } finally {
+      await session.close();
+    }
+  }
+
+  // de-duplicate by id and return in chronological order
+  private mergeMessages(...lists: any[][]): any[] {
+    const byId = new Map<string, any>();
+    for (const message of lists.flat()) {
+      byId.set(message.id, message);
+    }
+
+    return Array.from(byId.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // included messages (and their context) are merged into the page like in getMessages, they don't
+  // count towards total or hasMore
+  async getMessagesPaginated(args: {
+    threadId: string;
+    resourceId?: string;
+    selectBy?: {
+      vectorSearchString?: string;
+      last?: number | false;
+      include?: {
+        id: string;
+        threadId?: string;
+        withPreviousMessages?: number;
+        withNextMessages?: number;
+      }[];
+      pagination?: {
+        page?: number;
+        perPage?: number;
+        dateRange?: {
+          start?: Date;
+          end?: Date;
+        };
       };
+    };
+    threadConfig?: any;
+    format?: "v1" | "v2";
+  }): Promise<{
+    messages: any[];
+    total: number;
+    page: number;
+    perPage: number;
+    hasMore: boolean;
+  }> {
+    const page = args.selectBy?.pagination?.page ?? 0;
+    const perPage = args.selectBy?.pagination?.perPage ?? 10;
+    const offset = page * perPage;
+    const dateRange = args.selectBy?.pagination?.dateRange;
+
+    // Get total count
+    const session = this.driver.session({ database: this.database });
+    try {
+      const countResult = await session.run(
+        `
+          MATCH (t:Thread {id: $threadId})-[r:CONTAINS]->(m:Message)
+          WHERE ($start IS NULL OR m.createdAt >= datetime($start))
+            AND ($end IS NULL OR m.createdAt <= datetime($end))
+          RETURN count(m) as total
+        `,
+        {
+          threadId: args.threadId,
+          start: this.serializeDate(dateRange?.start) ?? null,
+          end: this.serializeDate(dateRange?.end) ?? null,
+        }
+      );
+      const total = countResult.records[0]?.get("total").toNumber() || 0;
+
+      // Get paginated messages
+      const pageMessages = await this.getMessagesByThreadId(args.threadId, {
+        limit: perPage,
+        offset,
+        dateRange,
+      });
+
+      const include = args.selectBy?.include || [];
+      const messages =
+        include.length > 0
+          ? this.mergeMessages(pageMessages, await this.getIncludedMessages(include, args.resourceId))
+          : pageMessages;
+
+      const hasMore = perPage > 0 && (page + 1) * perPage < total;
+
+      return {
+        messages: this.formatMessages(messages, args.format),
+        total,
+        page,
+        perPage,
+        hasMore,
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getMessagesById({ messageIds, format }: { messageIds: string[]; format?: "v1" | "v2" }): Promise<any[]> {
+    if (messageIds.length === 0) return [];
+
+    const session = this.driver.session({ database: this.database });
+    try {
+      const result = await session.run(
+        `
+        MATCH (m:Message)
+        WHERE m.id IN $messageIds
+        RETURN m
+        ORDER BY m.createdAt ASC
+      `,
+        { messageIds }
+      );
+
+      return this.formatMessages(
+        result.records.map((record) => this.mapNeo4jNodeToMessage(record.get("m"))),
+        format
+      );
+    } finally {
+      await session.close();
+    }
+  }
+
+  async deleteMessage(messageId: string): Promise<void> {
+    return this.deleteMessageById(messageId);
+  }
+
+  async createThread(thread: any): Promise<any> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const now = new Date();
+      const threadData = {
+        id: thread.id || `thread_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        resourceId: thread.resourceId || "default",
+        title: thread.title || "Untitled Thread",
+        createdAt: thread.createdAt || now,
+        updatedAt: thread.updatedAt || now,
+        metadata: thread.metadata || {},
+      };
+
+      // saving an existing thread updates it, and every thread is owned by its resource only: a
+      // thread moved to another resource loses the previous owner's edge
+      const result = await session.run(
+        `
+        MERGE (t:Thread {id: $id})
+        ON CREATE SET t.createdAt = datetime($createdAt)
+        SET t.resourceId = $resourceId,
+            t.title = $title,
+            t.updatedAt = datetime($updatedAt),
+            t.metadata = $metadata
+        MERGE (r:Resource {id: $resourceId})
+        ON CREATE SET r.createdAt = datetime($createdAt),
+                      r.updatedAt = datetime($createdAt),
+                      r.metadata = '{}'
+        MERGE (r)-[:OWNS]->(t)
+        WITH t
+        OPTIONAL MATCH (previous:Resource)-[stale:OWNS]->(t)
+        WHERE previous.id <> $resourceId
+        WITH t, collect(stale) AS stale
+        FOREACH (owns IN stale | DELETE owns)
+        RETURN t
+      `,
+        {
+          id: threadData.id,
+          resourceId: threadData.resourceId,
+          title: threadData.title,
+          createdAt: threadData.createdAt.toISOString(),
+          updatedAt: threadData.updatedAt.toISOString(),
+          metadata: JSON.stringify(threadData.metadata),
+        }
+      );
+
+      return this.mapNeo4jNodeToThread(result.records[0]?.get("t"));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getThreadById({ threadId }: { threadId: string }): Promise<any | null> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (t:Thread {id: $threadId})
+        RETURN t
+      `,
+        { threadId }
+      );
+
+      if (result.records.length === 0) {
+        return null;
+      }
+
+      return this.mapNeo4jNodeToThread(result.records[0].get("t"));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getThreadsByResourceId({
+    resourceId,
+    orderBy,
+    sortDirection,
+  }: {
+    resourceId: string;
+    orderBy?: string;
+    sortDirection?: string;
+  }): Promise<any[]> {
+    const sort = this.resolveThreadSort(orderBy, sortDirection);
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (t:Thread {resourceId: $resourceId})
+        RETURN t
+        ORDER BY t.${sort.orderBy} ${sort.sortDirection}
+      `,
+        { resourceId }
+      );
+
+      return result.records.map((record) => this.mapNeo4jNodeToThread(record.get("t")));
+    } finally {
+      await session.close();
+    }
+  }
+
+  async getThreadsByResourceIdPaginated(args: {
+    resourceId: string;
+    page: number;
+    perPage: number;
+    orderBy?: string;
+    sortDirection?: string;
+  }): Promise<{
+    threads: any[];
+    total: number;
+    page: number;
+    perPage: number;
+    hasMore: boolean;
+  }> {
+    const sort = this.resolveThreadSort(args.orderBy, args.sortDirection);
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const offset = args.page * args.perPage;
+
+      const countResult = await session.run(
+        `
+        MATCH (t:Thread {resourceId: $resourceId})
+        RETURN count(t) as total
+      `,
+        { resourceId: args.resourceId }
+      );
+      const total = countResult.records[0]?.get("total").toNumber() || 0;
+
+      const result = await session.run(
+        `
+        MATCH (t:Thread {resourceId: $resourceId})
+        RETURN t
+        ORDER BY t.${sort.orderBy} ${sort.sortDirection}
+        SKIP toInteger($offset)
+        LIMIT toInteger($perPage)
+      `,
+        {
+          resourceId: args.resourceId,
+          offset,
+          perPage: args.perPage,
+        }
+      );
+
+      const threads = result.records.map((record) => this.mapNeo4jNodeToThread(record.get("t")));
+      const hasMore = (args.page + 1) * args.perPage < total;
+
+      return {
+        threads,
+        total,
+        page: args.page,
+        perPage: args.perPage,
+        hasMore,
+      };
+    } finally {
+      await session.close();
+    }
+  }
+
+  // accepts mastra's { id, title, metadata } as well as (threadId, updates); metadata is deep merged
+  async updateThread(
+    args: string | { id: string; title?: string; metadata?: Record<string, unknown> },
+    updates?: { title?: string; metadata?: Record<string, unknown> }
+  ): Promise<any> {
+    const { id: threadId, ...fields } = typeof args === "string" ? { id: args, ...(updates || {}) } : args;
+    this.assertUpdateFields("thread", fields, THREAD_UPDATE_FIELDS);
+
+    return this.transaction(async (tx) => {
+      // touching the thread first takes its write lock, so concurrent metadata merges don't lose keys
+      const existing = await tx.run(
+        `
+        MATCH (t:Thread {id: $threadId})
+        SET t.updatedAt = datetime()
+        RETURN t.metadata AS metadata
+      `,
+        { threadId }
+      );
+      if (existing.records.length === 0) return null;
+
+      const storedMetadata = existing.records[0].get("metadata");
+      const metadata = this.deepMerge(storedMetadata ? JSON.parse(storedMetadata) : {}, fields.metadata || {});
+
+      const result = await tx.run(
+        `
+        MATCH (t:Thread {id: $threadId})
+        SET t.title = CASE WHEN $hasTitle THEN $title ELSE t.title END,
+            t.metadata = $metadata
+        RETURN t
+      `,
+        {
+          threadId,
+          hasTitle: fields.title !== undefined,
+          title: fields.title ?? null,
+          metadata: JSON.stringify(metadata),
+        }
+      );
+
+      return this.mapNeo4jNodeToThread(result.records[0].get("t"));
+    });
+  }
+
+  // removes the thread together with its messages (and their MENTIONS edges) and tool calls in one transaction,
+  // along with entities only its messages supported, returning the number of nodes deleted
+  async deleteThreadById(threadId: string): Promise<number> {
+    return this.transaction(async (tx) => {
+      const messages = await tx.run(`MATCH (m:Message {threadId: $threadId}) RETURN collect(m.id) AS ids`, {
+        threadId,
+      });
+      const messageIds: string[] = messages.records[0]?.get("ids") || [];
+      const entityIds = await this.getMentionedEntityIds(tx, messageIds);
+
+      const result = await tx.run(
+        `
+        MATCH (t:Thread {id: $threadId})
+        OPTIONAL MATCH (m:Message {threadId: $threadId})
+        WITH t, collect(DISTINCT m) AS messages
+        OPTIONAL MATCH (tc:ToolCall {threadId: $threadId})
+        WITH t, messages, collect(DISTINCT tc) AS toolCalls
+        CALL {
+          WITH messages
+          UNWIND messages AS m
+          MATCH (m)-[:INVOKED|RETURNED]-(linked:ToolCall)
+          RETURN collect(DISTINCT linked) AS linked
+        }
+        WITH t, messages, toolCalls + [tc IN linked WHERE NOT tc IN toolCalls] AS toolCalls
+        FOREACH (m IN messages | DETACH DELETE m)
+        FOREACH (tc IN toolCalls | DETACH DELETE tc)
+        DETACH DELETE t
+        RETURN size(messages) + size(toolCalls) + 1 AS deleted
+      `,
+        { threadId }
+      );
+      const deleted = result.records[0]?.get("deleted").toNumber() || 0;
+      if (deleted === 0) return 0;
+
+      const garbage = await this.collectEntityGarbage(tx, { messageIds, entityIds });
+      return deleted + garbage.removedEntities;
+    });
+  }
+
+  async createMessage(message: any, options?: { upsert?: boolean }): Promise<any> {
+    const [created] = await this.writeMessages([message], options);
+    return created;
+  }
+
+  // writes messages, their threads, entities and tool calls in a single transaction so a batch is
+  // stored completely or not at all; embeddings are computed once the transaction has committed
+  private async writeMessages(messages: any[], options?: { upsert?: boolean }): Promise<any[]> {
+    if (messages.length === 0) return [];
+    const upsert = options?.upsert ?? true;
+
+    const now = new Date();
+    const prepared = messages.map((message) => this.prepareMessage(message, now));
+
+    const threads = new Map<string, any>();
+    prepared.forEach(({ messageData, thread }) => {
+      if (!threads.has(thread.id))
+        threads.set(thread.id, { ...thread, createdAt: messageData.createdAt.toISOString() });
+    });
 
-      await session.run(
+    const rows = prepared.map(({ messageData }) => ({
+      ...messageData,
+      createdAt: messageData.createdAt.toISOString(),
+      metadata: JSON.stringify(messageData.metadata),
+    }));
+
+    // extractors may call out to an llm, so they run before the transaction is opened
+    const extractions = await this.extractMessageEntities(prepared.map(({ messageData }) => messageData));
+
+    const nodes = await this.transaction(async (tx) => {
+      // what re-saved messages used to mention, their new content is extracted again below
+      const previousEntityIds = upsert
+        ? await this.getMentionedEntityIds(
+            tx,
+            rows.map((row) => row.id)
+          )
+        : [];
+
+      await tx.run(
         `
-        MERGE (t:Thread {id: $threadId})
-        ON CREATE SET t.resourceId = $resourceId,
-                      t.title = $title,
-                      t.createdAt = datetime($createdAt),
-                      t.updatedAt = datetime($updatedAt),
-                      t.metadata = $metadata
+        UNWIND $threads AS thread
+        MERGE (t:Thread {id: thread.id})
+        ON CREATE SET t.resourceId = thread.resourceId,
+                      t.title = thread.title,
+                      t.createdAt = datetime(thread.createdAt),
+                      t.updatedAt = datetime(thread.createdAt),
+                      t.metadata = '{}'
+        MERGE (r:Resource {id: t.resourceId})
+        ON CREATE SET r.createdAt = datetime(thread.createdAt),
+                      r.updatedAt = datetime(thread.createdAt),
+                      r.metadata = '{}'
+        MERGE (r)-[:OWNS]->(t)
       `,
-        {
-          threadId: messageData.threadId,
-          resourceId: message.resourceId || "default",
-          title: message.title || "Auto-created Thread",
-          createdAt: messageData.createdAt.toISOString(),
-          updatedAt: messageData.createdAt.toISOString(),
-          metadata: JSON.stringify({}),
-        }
+        { threads: Array.from(threads.values()) }
       );
 
-      const result = await session.run(
-        `
-        MATCH (t:Thread {id: $threadId})
+      // upserted messages move to their new thread and lose the mentions of their old content
+      const result = await tx.run(
+        upsert
+          ? `
+        UNWIND $messages AS row
+        MATCH (t:Thread {id: row.threadId})
+        MERGE (m:Message {id: row.id})
+        ON CREATE SET m.createdAt = datetime(row.createdAt)
+        SET m.threadId = row.threadId,
+            m.resourceId = row.resourceId,
+            m.role = row.role,
+            m.type = row.type,
+            m.content = row.content,
+            m.contentJson = row.contentJson,
+            m.metadata = row.metadata
+        WITH t, m
+        OPTIONAL MATCH (previous:Thread)-[contains:CONTAINS]->(m)
+        WHERE previous <> t
+        WITH t, m, collect(contains) AS stale
+        FOREACH (rel IN stale | DELETE rel)
+        WITH t, m
+        OPTIONAL MATCH (m)-[mention:MENTIONS]->(:Entity)
+        WITH t, m, collect(mention) AS mentions
+        FOREACH (rel IN mentions | DELETE rel)
+        MERGE (t)-[:CONTAINS]->(m)
+        RETURN m
+      `
+          : `
+        UNWIND $messages AS row
+        MATCH (t:Thread {id: row.threadId})
         CREATE (m:Message {
-          id: $id,
-          threadId: $threadId,
-          role: $role,
-          content: $content,
-          createdAt: datetime($createdAt),
-          metadata: $metadata
+          id: row.id,
+          threadId: row.threadId,
+          resourceId: row.resourceId,
+          role: row.role,
+          type: row.type,
+          content: row.content,
+          contentJson: row.contentJson,
+          createdAt: datetime(row.createdAt),
+          metadata: row.metadata
         })
         CREATE (t)-[:CONTAINS]->(m)
         RETURN m
       `,
-        {
-          id: messageData.id,
-          threadId: messageData.threadId,
-          role: messageData.role,
-          content: messageData.content,
-          createdAt: messageData.createdAt.toISOString(),
-          metadata: JSON.stringify(messageData.metadata),
-        }
+        { messages: rows }
       );
 
-      const messageNode = result.records[0]?.get("m");
-      if (!messageNode) {
-        throw new Error(`Failed to create message with id: ${messageData.id}`);
+      if (result.records.length !== rows.length) {
+        throw new Error(`Failed to save messages: ${rows.map((row) => row.id).join(", ")}`);
+      }
+
+      // re-saved messages are extracted again before collecting, so facts they still state keep their
+      // validity and history and only what the new content dropped loses their support
+      const supported = await this.createMessageEntities(tx, extractions);
+      if (upsert) {
+        await this.collectEntityGarbage(tx, {
+          messageIds: rows.map((row) => row.id),
+          entityIds: previousEntityIds,
+          supported,
+        });
       }
+      await this.createMessageToolCalls(tx, prepared);
+      await this.applyPendingEmbeddings(
+        tx,
+        rows.map((row) => row.id)
+      );
 
-      await this.createMessageEntities(session, messageData);
+      return result.records.map((record: any) => record.get("m"));
+    });
 
-      return this.mapNeo4jNodeToMessage(messageNode);
-    } finally {
-      await session.close();
-    }
+    await this.createMessageEmbeddings(prepared.map(({ messageData }) => messageData));
+
+    return nodes.map((node: any) => this.mapNeo4jNodeToMessage(node));
+  }
+
+  // v1 and v2 input alike is stored as v2 content, nothing but the plain text is derived from it
+  private prepareMessage(message: any, now: Date): { messageData: any; content: any; thread: any } {
+    const v2Message = this.toV2Message({
+      ...message,
+      id: message.id || `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    });
+
+    // every field comes from the v2 message, the content is stored as v2: a v1 tool result becomes an
+    // assistant message there and would be dropped on the way back to v1 if it kept its "tool" role
+    const messageData = {
+      id: v2Message.id,
+      threadId: v2Message.threadId || "default",
+      resourceId: v2Message.resourceId ?? null,
+      role: v2Message.role || "user",
+      type: v2Message.type || message.type || "text",
+      content: this.getMessageText(v2Message.content),
+      contentJson: JSON.stringify(v2Message.content),
+      createdAt: (message.createdAt && this.ensureDate(v2Message.createdAt)) || now,
+      metadata: v2Message.content.metadata || {},
+    };
+
+    return {
+      messageData,
+      content: v2Message.content,
+      thread: {
+        id: messageData.threadId,
+        resourceId: v2Message.resourceId || "default",
+        title: message.title || "Auto-created Thread",
+      },
+    };
   }
 
-  async getMessagesByThreadId(threadId: string, options?: any): Promise<any[]> {
+  // latest selects the most recent messages instead of the oldest; results are always oldest first
+  async getMessagesByThreadId(
+    threadId: string,
+    options?: {
+      limit?: number;
+      offset?: number;
+      latest?: boolean;
+      dateRange?: {
+        start?: Date;
+        end?: Date;
+      };
+    }
+  ): Promise<any[]> {
     const session = this.driver.session({ database: this.database });
 
     try {
-      const limit = Math.floor(options?.limit || 100);
+      const limit = Math.floor(options?.limit ?? 100);
       const offset = Math.floor(options?.offset || 0);
 
       const result = await session.run(
         `
         MATCH (t:Thread {id: $threadId})-[r:CONTAINS]->(m:Message)
+        WHERE ($start IS NULL OR m.createdAt >= datetime($start))
+          AND ($end IS NULL OR m.createdAt <= datetime($end))
         RETURN t, r, m
-        ORDER BY m.createdAt ASC
+        ORDER BY m.createdAt ${options?.latest ? "DESC" : "ASC"}
         SKIP toInteger($offset)
         LIMIT toInteger($limit)
       `,
-        { threadId, offset, limit }
+        {
+          threadId,
+          offset,
+          limit,
+          start: this.serializeDate(options?.dateRange?.start) ?? null,
+          end: this.serializeDate(options?.dateRange?.end) ?? null,
+        }
       );
 
-      return result.records.map((record) => this.mapNeo4jNodeToMessage(record.get("m")));
+      const messages = result.records.map((record) => this.mapNeo4jNodeToMessage(record.get("m")));
+      return options?.latest ? messages.reverse() : messages;
     } finally {
       await session.close();
     }
   }
 
+  // content (including its metadata) is deep merged into the stored v2 content; mentions, tool calls
+  // and the embedding are rebuilt from the merged content
   async updateMessage(messageId: string, updates: any): Promise<any> {
-    const session = this.driver.session({ database: this.database });
+    const { id: _id, ...fields } = updates || {};
+    this.assertUpdateFields("message", fields, MESSAGE_UPDATE_FIELDS);
+
+    // extractors may call out to an llm, so the merged content is extracted from the message as read
+    // before the transaction; if it changed in the meantime the update starts over on the new content
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const [stored] = await this.query(`MATCH (m:Message {id: $messageId}) RETURN m`, { messageId });
+      if (!stored) return null;
+
+      const current = this.mapNeo4jNodeToMessage(stored.m);
+      const content =
+        fields.content === undefined
+          ? current.content
+          : this.deepMerge(
+              current.content,
+              typeof fields.content === "string" ? { content: fields.content } : fields.content
+            );
 
-    try {
-      const setClause = Object.keys(updates)
-        .filter((key) => key !== "id")
-        .map((key) => `m.${key} = $${key}`)
-        .join(", ");
+      const messageData = {
+        id: messageId,
+        threadId: fields.threadId ?? current.threadId,
+        resourceId: fields.resourceId ?? current.resourceId ?? null,
+        role: fields.role ?? current.role,
+        type: fields.type ?? current.type,
+        content: this.getMessageText(content),
+        contentJson: JSON.stringify(content),
+        metadata: content.metadata || {},
+      };
+      const extractions = fields.content === undefined ? [] : await this.extractMessageEntities([messageData]);
+
+      const updated = await this.transaction(async (tx) => {
+        const existing = await tx.run(
+          `
+          MATCH (m:Message {id: $messageId})
+          SET m._lock = true
+          REMOVE m._lock
+          RETURN m.contentJson AS contentJson
+        `,
+          { messageId }
+        );
+        if (existing.records.length === 0) return null;
+        if (existing.records[0].get("contentJson") !== stored.m.properties.contentJson) return "stale";
+
+        const result = await tx.run(
+          `
+          MATCH (m:Message {id: $id})
+          MATCH (t:Thread {id: $threadId})
+          SET m.threadId = $threadId,
+              m.resourceId = $resourceId,
+              m.role = $role,
+              m.type = $type,
+              m.content = $content,
+              m.contentJson = $contentJson,
+              m.metadata = $metadata
+          WITH m, t
+          OPTIONAL MATCH (previous:Thread)-[contains:CONTAINS]->(m)
+          WHERE previous <> t
+          WITH m, t, collect(contains) AS stale
+          FOREACH (rel IN stale | DELETE rel)
+          MERGE (t)-[:CONTAINS]->(m)
+          SET t.updatedAt = datetime()
+          RETURN m
+        `,
+          { ...messageData, metadata: JSON.stringify(messageData.metadata) }
+        );
+        if (result.records.length === 0) {
+          throw new Error(`Thread not found for message ${messageId}: ${messageData.threadId}`);
+        }
 
-      const result = await session.run(
-        `
-        MATCH (m:Message {id: $messageId})
-        SET ${setClause}
-        RETURN m
-      `,
-        { messageId, ...updates }
-      );
+        await this.createMessageToolCalls(tx, [{ messageData, content }]);
 
-      if (result.records.length === 0) {
-        return null;
-      }
+        // the message's mentions are replaced together with its content, extracting the new content
+        // before collecting what only the old one supported
+        if (fields.content !== undefined) {
+          const entityIds = await this.getMentionedEntityIds(tx, [messageId]);
+          await tx.run(
+            `
+            MATCH (m:Message {id: $messageId})-[mention:MENTIONS]->(:Entity)
+            DELETE mention
+          `,
+            { messageId }
+          );
+          const supported = await this.createMessageEntities(tx, extractions);
+          await this.collectEntityGarbage(tx, { messageIds: [messageId], entityIds, supported });
+        }
 
-      return this.mapNeo4jNodeToMessage(result.records[0].get("m"));
-    } finally {
-      await session.close();
+        return result.records[0].get("m");
+      });
+
+      if (updated === "stale") continue;
+      if (!updated) return null;
+
+      if (fields.content !== undefined) {
+        await this.createMessageEmbeddings([messageData]);
+      }
+      return this.mapNeo4jNodeToMessage(updated);
     }
+
+    throw new Error(`Message ${messageId} kept changing while it was being updated`);
   }
 
   async updateMessages(args: {
@@ -899,191 +2776,1607 @@ export class Neo4jStorage {
     return results;
   }
 
+  // entities and relationships left without a supporting message go with the messages, and so do
+  // tool calls no remaining message invoked or returned
   async deleteMessages(messageIds: string[]): Promise<void> {
     if (messageIds.length === 0) return;
 
+    await this.transaction(async (tx) => {
+      const entityIds = await this.getMentionedEntityIds(tx, messageIds);
+
+      await tx.run(
+        `
+        MATCH (m:Message)
+        WHERE m.id IN $messageIds
+        OPTIONAL MATCH (m)-[:INVOKED|RETURNED]-(tc:ToolCall)
+        WITH collect(DISTINCT m) AS messages, collect(DISTINCT tc) AS toolCalls
+        FOREACH (m IN messages | DETACH DELETE m)
+        WITH toolCalls
+        UNWIND toolCalls AS tc
+        WITH tc
+        WHERE NOT EXISTS { MATCH (tc)-[:INVOKED|RETURNED]-(:Message) }
+        DETACH DELETE tc
+      `,
+        { messageIds }
+      );
+
+      await this.collectEntityGarbage(tx, { messageIds, entityIds });
+    });
+  }
+
+  async deleteMessageById(messageId: string): Promise<void> {
+    await this.deleteMessages([messageId]);
+  }
+
+  // tool invocations become ToolCall nodes: INVOKED from the message that made the call,
+  // RETURNED to the message that carried its result (the same message once mastra merges them).
+  // the call counts as started when the invoking message was created, so durationMs is also known
+  // when the result arrives in that same message
+  private async createMessageToolCalls(runner: any, messages: { messageData: any; content: any }[]): Promise<void> {
+    const calls = messages.flatMap(({ messageData, content }) =>
+      (content?.parts || [])
+        .filter((part: any) => part.type === "tool-invocation" && part.toolInvocation?.toolCallId)
+        .map((part: any) => ({
+          messageId: messageData.id,
+          threadId: messageData.threadId,
+          resourceId: messageData.resourceId,
+          toolCallId: part.toolInvocation.toolCallId,
+          toolName: part.toolInvocation.toolName ?? null,
+          state: part.toolInvocation.state,
+          // a result on its own (a v1 tool result converts to one with empty args) doesn't know the args
+          args:
+            part.toolInvocation.args === undefined ||
+            (part.toolInvocation.state === "result" && Object.keys(part.toolInvocation.args).length === 0)
+              ? null
+              : JSON.stringify(part.toolInvocation.args),
+          result: part.toolInvocation.result === undefined ? null : JSON.stringify(part.toolInvocation.result),
+        }))
+    );
+
+    // a re-saved message only stays linked to the calls its new content still has, calls left without
+    // any message are removed like deleteMessages does
+    const stale = await runner.run(
+      `
+      UNWIND $messageIds AS messageId
+      MATCH (m:Message {id: messageId})-[link:INVOKED|RETURNED]-(tc:ToolCall)
+      DELETE link
+      RETURN collect(DISTINCT elementId(tc)) AS ids
+    `,
+      { messageIds: messages.map(({ messageData }) => messageData.id) }
+    );
+    const staleIds: string[] = stale.records[0]?.get("ids") || [];
+
+    if (calls.length > 0) {
+      await runner.run(
+        `
+        UNWIND $calls AS call
+        MATCH (m:Message {id: call.messageId})
+        MERGE (tc:ToolCall {toolCallId: call.toolCallId})
+        ON CREATE SET tc.createdAt = datetime(), tc.startedAt = m.createdAt
+        WITH m, tc, call, tc.state AS previousState
+        SET tc.toolName = coalesce(call.toolName, tc.toolName),
+            tc.args = coalesce(call.args, tc.args),
+            tc.threadId = call.threadId,
+            tc.resourceId = call.resourceId,
+            tc.updatedAt = datetime()
+        FOREACH (_ IN CASE WHEN call.state = 'result' THEN [1] ELSE [] END |
+          SET tc.result = call.result,
+              tc.durationMs = CASE
+                WHEN coalesce(previousState, '') <> 'result'
+                  THEN duration.inMilliseconds(coalesce(tc.startedAt, tc.createdAt), datetime()).milliseconds
+                ELSE tc.durationMs
+              END,
+              tc.completedAt = coalesce(tc.completedAt, datetime())
+          MERGE (tc)-[:RETURNED]->(m)
+        )
+        SET tc.state = call.state
+        WITH m, tc
+        OPTIONAL MATCH (invoker:Message)-[:INVOKED]->(tc)
+        WITH m, tc, count(invoker) AS invokers
+        FOREACH (_ IN CASE WHEN invokers = 0 THEN [1] ELSE [] END | MERGE (m)-[:INVOKED]->(tc))
+      `,
+        { calls }
+      );
+    }
+
+    if (staleIds.length > 0) {
+      await runner.run(
+        `
+        UNWIND $ids AS id
+        MATCH (tc:ToolCall)
+        WHERE elementId(tc) = id AND NOT EXISTS { MATCH (tc)-[:INVOKED|RETURNED]-(:Message) }
+        DETACH DELETE tc
+      `,
+        { ids: staleIds }
+      );
+    }
+  }
+
+  // e.g. every Aura-memorize call made for a user, newest first
+  async getToolCalls({
+    toolName,
+    resourceId,
+    threadId,
+    limit = 100,
+    offset = 0,
+  }: {
+    toolName?: string;
+    resourceId?: string;
+    threadId?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<any[]> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (tc:ToolCall)
+        WHERE ($toolName IS NULL OR tc.toolName = $toolName)
+          AND ($resourceId IS NULL OR tc.resourceId = $resourceId)
+          AND ($threadId IS NULL OR tc.threadId = $threadId)
+        WITH tc
+        ORDER BY tc.createdAt DESC
+        SKIP toInteger($offset)
+        LIMIT toInteger($limit)
+        OPTIONAL MATCH (invoker:Message)-[:INVOKED]->(tc)
+        WITH tc, head(collect(invoker.id)) AS invokedBy
+        OPTIONAL MATCH (tc)-[:RETURNED]->(returned:Message)
+        WITH tc, invokedBy, head(collect(returned.id)) AS returnedTo
+        RETURN tc, invokedBy, returnedTo
+        ORDER BY tc.createdAt DESC
+      `,
+        {
+          toolName: toolName ?? null,
+          resourceId: resourceId ?? null,
+          threadId: threadId ?? null,
+          offset: Math.floor(offset),
+          limit: Math.floor(limit),
+        }
+      );
+
+      return result.records.map((record) => ({
+        ...this.mapNeo4jNodeToToolCall(record.get("tc")),
+        invokedByMessageId: record.get("invokedBy") ?? undefined,
+        returnedToMessageId: record.get("returnedTo") ?? undefined,
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  private async createMessageEmbeddings(messages: any[]): Promise<void> {
+    const embedder = this.embedder;
+    const embeddable = messages.filter((messageData) => messageData.content);
+    if (!embedder || embeddable.length === 0) return;
+
+    try {
+      const entries = await Promise.all(
+        embeddable.map(async (messageData) => ({
+          messageId: messageData.id,
+          embedding: await embedder(messageData.content),
+        }))
+      );
+      await this.setMessageEmbeddings(entries);
+    } catch (error) {
+      // the messages are stored either way, they just won't be found by semantic recall
+      console.warn(`Failed to embed messages: ${embeddable.map((messageData) => messageData.id).join(", ")}`, error);
+    }
+  }
+
+  // moves embeddings the vector store wrote before these messages existed onto them
+  private async applyPendingEmbeddings(runner: any, messageIds: string[]): Promise<void> {
+    await runner.run(
+      `
+      UNWIND $messageIds AS messageId
+      MERGE (p:PendingEmbedding {messageId: messageId})
+      WITH p, messageId
+      MATCH (m:Message {id: messageId})
+      SET m.embedding = coalesce(p.embedding, m.embedding)
+      DELETE p
+    `,
+      { messageIds }
+    );
+  }
+
+  private async extractMessageEntities(messages: any[]): Promise<MessageExtraction[]> {
+    const extractable = messages.filter((messageData) => messageData.content && messageData.content.length >= 3);
+
+    return Promise.all(
+      extractable.map(async (messageData) => {
+        const { entities, relationships, retractions } = await this.entityExtractor.extract(messageData.content, {
+          messageId: messageData.id,
+          threadId: messageData.threadId,
+          resourceId: messageData.resourceId,
+          role: messageData.role,
+        });
+        return { messageData, entities, relationships: relationships || [], retractions: retractions || [] };
+      })
+    );
+  }
+
+  // writes mentions, relationships and retractions for a batch of extractions in a few UNWIND queries
+  private async createMessageEntities(runner: any, extractions: MessageExtraction[]): Promise<string[]> {
+    const mentions: any[] = [];
+    const relationships = new Map<string, any[]>();
+    const retractions = new Map<string, any[]>();
+
+    for (const { messageData, entities, relationships: extracted, retractions: retracted } of extractions) {
+      const key = (entity: { type: string; value: string }) => normalizeEntityKey(entity.value, entity.type);
+      const isGlobal = (entity: { type: string; value: string }) => {
+        const extractedEntity = entities.find((e) => e.type === entity.type && key(e) === key(entity));
+        return (extractedEntity?.scope ?? this.entityScope) === "global";
+      };
+
+      entities.forEach((entity) =>
+        mentions.push({
+          messageId: messageData.id,
+          type: entity.type,
+          key: key(entity),
+          value: entity.value,
+          confidence: entity.confidence,
+          global: isGlobal(entity),
+        })
+      );
+
+      extracted.forEach((relationship) => {
+        relationships.set(relationship.type, [
+          ...(relationships.get(relationship.type) || []),
+          {
+            messageId: messageData.id,
+            type1: relationship.from.type,
+            key1: key(relationship.from),
+            global1: isGlobal(relationship.from),
+            type2: relationship.to.type,
+            key2: key(relationship.to),
+            global2: isGlobal(relationship.to),
+            confidence: relationship.confidence,
+            exclusive: relationship.exclusive ?? false,
+          },
+        ]);
+      });
+
+      retracted.forEach((retraction) => {
+        retractions.set(retraction.type, [
+          ...(retractions.get(retraction.type) || []),
+          {
+            messageId: messageData.id,
+            fromType: retraction.from?.type ?? null,
+            fromKey: retraction.from ? key(retraction.from) : null,
+            toType: retraction.to?.type ?? null,
+            toKey: retraction.to ? key(retraction.to) : null,
+          },
+        ]);
+      });
+    }
+
+    await this.createEntityNodes(runner, mentions);
+
+    const supported: string[] = [];
+    for (const [relationshipType, pairs] of relationships) {
+      supported.push(...(await this.createEntityRelationships(runner, relationshipType, pairs)));
+    }
+
+    for (const [relationshipType, rows] of retractions) {
+      await this.closeEntityRelationships(runner, relationshipType, rows);
+    }
+
+    return supported;
+  }
+
+  // create entity nodes in the scope of the message's resource (or the global scope) and link them
+  // to the messages that mention them. a key merged into another entity resolves to that entity, and
+  // every spelling seen is recorded as an alias. the key is locked before it is resolved, so a merge
+  // running meanwhile (which locks the keys of both entities) is either waited for or waits for us
+  private async createEntityNodes(
+    runner: any,
+    mentions: Array<{
+      messageId: string;
+      type: string;
+      key: string;
+      value: string;
+      confidence: number;
+      global: boolean;
+    }>
+  ): Promise<void> {
+    if (mentions.length === 0) return;
+
+    await runner.run(
+      `
+      UNWIND $mentions AS mention
+      MATCH (t:Thread)-[:CONTAINS]->(m:Message {id: mention.messageId})
+      WITH mention, m, CASE WHEN mention.global THEN $globalScope ELSE t.resourceId END AS scope
+      MERGE (k:EntityKey {scope: scope, type: mention.type, key: mention.key})
+      SET k._lock = true
+      REMOVE k._lock
+      WITH mention, m, scope, k
+      CALL {
+        WITH k
+        OPTIONAL MATCH (k)-[:KEY_OF]->(resolved:Entity)
+        RETURN head(collect(resolved.key)) AS resolvedKey
+      }
+      MERGE (e:Entity {scope: scope, type: mention.type, key: coalesce(resolvedKey, mention.key)})
+      ON CREATE SET e.value = mention.value,
+                    e.aliases = [mention.value],
+                    e.confidence = mention.confidence,
+                    e.createdAt = datetime(),
+                    e.mentionCount = 0,
+                    e.firstSeenAt = m.createdAt,
+                    e.lastSeenAt = m.createdAt
+      MERGE (k)-[:KEY_OF]->(e)
+      SET e.confidence = CASE
+            WHEN e.confidence < mention.confidence THEN mention.confidence
+            ELSE e.confidence
+          END,
+          e.mentionCount = coalesce(e.mentionCount, 0) + 1,
+          e.aliases = CASE
+            WHEN mention.value IN coalesce(e.aliases, []) THEN e.aliases
+            ELSE coalesce(e.aliases, []) + mention.value
+          END,
+          e.firstSeenAt = CASE WHEN e.firstSeenAt IS NULL OR m.createdAt < e.firstSeenAt THEN m.createdAt ELSE e.firstSeenAt END,
+          e.lastSeenAt = CASE WHEN e.lastSeenAt IS NULL OR m.createdAt > e.lastSeenAt THEN m.createdAt ELSE e.lastSeenAt END
+      CREATE (m)-[:MENTIONS {confidence: mention.confidence}]->(e)
+      `,
+      { mentions, globalScope: GLOBAL_ENTITY_SCOPE }
+    );
+  }
+
+  // relationship types can't be parameterized, so pairs are written one type at a time.
+  // relationships are facts of the resource that stated them, even between global entities: valid from
+  // the stating message on, restating a current fact only raises its confidence, and an exclusive fact
+  // closes the current ones pointing elsewhere. a re-saved message that stated a fact since closed
+  // leaves it closed. each pair runs in its own subquery so later pairs of the batch see the facts
+  // written by earlier ones. returns "relationship element id|message id" for every fact the pairs'
+  // messages support afterwards
+  private async createEntityRelationships(runner: any, relationshipType: string, pairs: any[]): Promise<string[]> {
+    if (pairs.length === 0) return [];
+    this.assertIdentifier(relationshipType);
+
+    const result = await runner.run(
+      `
+      UNWIND $pairs AS pair
+      MATCH (t:Thread)-[:CONTAINS]->(m:Message {id: pair.messageId})
+      ${this.matchEntityByKey("e1", "[CASE WHEN pair.global1 THEN $globalScope ELSE t.resourceId END]", "pair.type1", "pair.key1")}
+      ${this.matchEntityByKey("e2", "[CASE WHEN pair.global2 THEN $globalScope ELSE t.resourceId END]", "pair.type2", "pair.key2")}
+      CALL {
+        WITH pair, t, m, e1, e2
+        OPTIONAL MATCH (e1)-[closed:${relationshipType} {scope: t.resourceId}]->(e2)
+        WHERE closed.validTo IS NOT NULL AND m.id IN coalesce(closed.supportingMessageIds, [closed.sourceMessageId])
+        WITH pair, t, m, e1, e2, count(closed) AS closedFacts
+        WHERE closedFacts = 0
+        OPTIONAL MATCH (e1)-[other:${relationshipType} {scope: t.resourceId}]->(previous:Entity)
+        WHERE pair.exclusive AND previous <> e2 AND other.validTo IS NULL
+          AND (other.validFrom IS NULL OR other.validFrom <= m.createdAt)
+        WITH pair, t, m, e1, e2, collect(other) AS superseded
+        FOREACH (r IN superseded | SET r.validTo = m.createdAt, r.closedByMessageId = m.id)
+        WITH pair, t, m, e1, e2
+        OPTIONAL MATCH (e1)-[current:${relationshipType} {scope: t.resourceId}]->(e2)
+        WHERE current.validTo IS NULL
+        WITH pair, t, m, e1, e2, head(collect(current)) AS current
+        FOREACH (_ IN CASE WHEN current IS NULL THEN [1] ELSE [] END |
+          CREATE (e1)-[:${relationshipType} {
+            scope: t.resourceId,
+            confidence: pair.confidence,
+            createdAt: datetime(),
+            validFrom: m.createdAt,
+            sourceMessageId: m.id,
+            supportingMessageIds: [m.id],
+            supportingConfidences: [pair.confidence],
+            mentionCount: 1,
+            firstSeenAt: m.createdAt,
+            lastSeenAt: m.createdAt
+          }]->(e2)
+        )
+        WITH pair, m, current, ${SUPPORT_OF("current")} AS support
+        WITH pair, m, current, [s IN support WHERE s.id <> m.id] + [{id: m.id, confidence: pair.confidence}] AS support
+        FOREACH (_ IN CASE WHEN current IS NULL THEN [] ELSE [1] END |
+          SET current.confidence = CASE
+                WHEN current.confidence < pair.confidence THEN pair.confidence
+                ELSE current.confidence
+              END,
+              current.supportingMessageIds = [s IN support | s.id],
+              current.supportingConfidences = [s IN support | s.confidence],
+              current.mentionCount = size(support),
+              current.firstSeenAt = CASE
+                WHEN current.firstSeenAt IS NULL OR m.createdAt < current.firstSeenAt THEN m.createdAt
+                ELSE current.firstSeenAt
+              END,
+              current.lastSeenAt = CASE
+                WHEN current.lastSeenAt IS NULL OR m.createdAt > current.lastSeenAt THEN m.createdAt
+                ELSE current.lastSeenAt
+              END
+        )
+      }
+      WITH t, m, e1, e2
+      MATCH (e1)-[r:${relationshipType} {scope: t.resourceId}]->(e2)
+      WHERE m.id IN coalesce(r.supportingMessageIds, [r.sourceMessageId])
+      RETURN DISTINCT elementId(r) + '|' + m.id AS supported
+      `,
+      { pairs, globalScope: GLOBAL_ENTITY_SCOPE }
+    );
+    return result.records.map((record: any) => record.get("supported"));
+  }
+
+  // ends the current facts a message retracts; the fact stays queryable as history. facts are found
+  // from the source entity when the retraction names one, else from the target
+  private async closeEntityRelationships(runner: any, relationshipType: string, rows: any[]): Promise<void> {
+    if (rows.length === 0) return;
+    this.assertIdentifier(relationshipType);
+
+    await runner.run(
+      `
+      UNWIND $rows AS row
+      MATCH (t:Thread)-[:CONTAINS]->(m:Message {id: row.messageId})
+      CALL {
+        WITH row, t
+        ${this.matchEntityByKey("e1", "[t.resourceId, $globalScope]", "row.fromType", "row.fromKey")}
+        MATCH (e1)-[r:${relationshipType} {scope: t.resourceId}]->(e2:Entity)
+        WHERE row.toType IS NULL
+          OR EXISTS { MATCH (:EntityKey {scope: e2.scope, type: row.toType, key: row.toKey})-[:KEY_OF]->(e2) }
+        RETURN r
+        UNION
+        WITH row, t
+        WITH row, t
+        WHERE row.fromType IS NULL
+        ${this.matchEntityByKey("e2", "[t.resourceId, $globalScope]", "row.toType", "row.toKey")}
+        MATCH (:Entity)-[r:${relationshipType} {scope: t.resourceId}]->(e2)
+        RETURN r
+      }
+      WITH m, r
+      WHERE r.validTo IS NULL AND (r.validFrom IS NULL OR r.validFrom <= m.createdAt)
+      SET r.validTo = m.createdAt, r.closedByMessageId = m.id
+      `,
+      { rows, globalScope: GLOBAL_ENTITY_SCOPE }
+    );
+  }
+
+  // facts of a resource, current ones by default, those in force at asOf when given, or every
+  // version with includeHistory. type/value narrow to facts about one entity
+  async getEntityFacts({
+    resourceId,
+    type,
+    value,
+    relationshipType,
+    asOf,
+    includeHistory = false,
+    limit = 100,
+  }: {
+    resourceId: string;
+    type?: string;
+    value?: string;
+    relationshipType?: string;
+    asOf?: Date;
+    includeHistory?: boolean;
+    limit?: number;
+  }): Promise<any[]> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        OPTIONAL ${this.matchEntityByKey("named", "[$resourceId, $globalScope]", "$type", "$key")}
+        WITH collect(named) AS named
+        MATCH (e1:Entity)-[r]->(e2:Entity)
+        WHERE r.scope = $resourceId
+          AND ($relationshipType IS NULL OR type(r) = $relationshipType)
+          AND ($type IS NULL OR CASE WHEN $key IS NULL THEN e1.type = $type OR e2.type = $type
+                                     ELSE e1 IN named OR e2 IN named END)
+          AND ($includeHistory OR ${this.validRelationshipCondition("r")})
+        RETURN type(r) AS type,
+               {type: e1.type, value: e1.value} AS from,
+               {type: e2.type, value: e2.value} AS to,
+               r AS fact,
+               ${this.relationshipStrength("r")} AS strength
+        ORDER BY coalesce(r.validFrom, r.createdAt) DESC
+        LIMIT toInteger($limit)
+      `,
+        {
+          resourceId,
+          type: type ?? null,
+          key: value ? normalizeEntityKey(value, type) : null,
+          relationshipType: relationshipType ?? null,
+          globalScope: GLOBAL_ENTITY_SCOPE,
+          ...this.strengthParams(asOf),
+          includeHistory,
+          limit: Math.floor(limit),
+        }
+      );
+
+      return result.records.map((record) => ({
+        type: record.get("type"),
+        from: record.get("from"),
+        to: record.get("to"),
+        ...this.mapNeo4jRelationshipToFact(record.get("fact")),
+        strength: record.get("strength") ?? 0,
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  // confidence reinforced by repeated mentions and decayed since the last one, at $asOf or now.
+  // arguments are cypher expressions; values written before counts were tracked count as one mention.
+  // neither term can push strength above the confidence: fewer than two mentions don't reinforce and
+  // a last mention after the point in time doesn't decay
+  private strengthExpression(confidence: string, mentionCount: string, lastSeenAt: string): string {
+    const reinforcements = `CASE WHEN coalesce(${mentionCount}, 1) > 1 THEN coalesce(${mentionCount}, 1) - 1 ELSE 0 END`;
+    const at = `coalesce(datetime($asOf), datetime())`;
+    return `((coalesce(${confidence}, 0.0) + (1 - coalesce(${confidence}, 0.0))
+        * (1 - (1 - $reinforcement) ^ (${reinforcements})))
+      * 0.5 ^ (CASE WHEN ${lastSeenAt} < ${at} THEN duration.inSeconds(${lastSeenAt}, ${at}).seconds ELSE 0 END
+        / 86400.0 / $halfLifeDays))`;
+  }
+
+  // with $asOf only the support of messages written by then counts, so a fact isn't reinforced or
+  // refreshed by later mentions; facts stored before support was tracked keep their confidence.
+  // the subquery's variables are prefixed so they can't capture variables of the calling query
+  private relationshipStrength(variable: string): string {
+    const current = this.strengthExpression(
+      `${variable}.confidence`,
+      `${variable}.mentionCount`,
+      `coalesce(${variable}.lastSeenAt, ${variable}.validFrom, ${variable}.createdAt)`
+    );
+    const asOf = this.strengthExpression(
+      `CASE WHEN ${variable}.supportingMessageIds IS NULL AND ${variable}.sourceMessageId IS NULL THEN ${variable}.confidence
+        ELSE reduce(seenConfidence = 0.0, seen IN seenSupport |
+          CASE WHEN seen.confidence > seenConfidence THEN seen.confidence ELSE seenConfidence END) END`,
+      `size(seenSupport)`,
+      `coalesce(reduce(seenAt = null, seen IN seenSupport | CASE WHEN seenAt IS NULL OR seen.at > seenAt THEN seen.at ELSE seenAt END),
+        ${variable}.validFrom, ${variable}.createdAt)`
+    );
+    return `(CASE WHEN $asOf IS NULL THEN ${current} ELSE head([seenSupport IN [COLLECT {
+        UNWIND ${SUPPORT_OF(variable)} AS seenEntry
+        MATCH (seenMessage:Message {id: seenEntry.id})
+        WHERE seenMessage.createdAt <= datetime($asOf)
+        RETURN {confidence: seenEntry.confidence, at: seenMessage.createdAt} AS seenRow
+      }] | ${asOf}]) END)`;
+  }
+
+  private strengthParams(asOf?: Date): { asOf: string | null; reinforcement: number; halfLifeDays: number } {
+    return { asOf: this.serializeDate(asOf) ?? null, ...this.entityConfidence };
+  }
+
+  // facts in force at $asOf, or current facts when no $asOf is given. relationships stored before
+  // validity was tracked count as valid from the beginning
+  private validRelationshipCondition(variable: string): string {
+    return `(CASE WHEN $asOf IS NULL THEN ${variable}.validTo IS NULL
+      ELSE (${variable}.validFrom IS NULL OR ${variable}.validFrom <= datetime($asOf))
+        AND (${variable}.validTo IS NULL OR ${variable}.validTo > datetime($asOf)) END)`;
+  }
+
+  // matches the entity named by its own key or by a key merged into it in one of the scopes, through the
+  // EntityKey index; legacy entities without a key only match once migrateEntityKeys has run. arguments
+  // are cypher expressions, the key node is bound as <variable>Key
+  private matchEntityByKey(variable: string, scopes: string, type: string, key: string): string {
+    return `MATCH (${variable}Key:EntityKey {type: ${type}, key: ${key}})-[:KEY_OF]->(${variable}:Entity)
+      WHERE ${variable}Key.scope IN ${scopes}`;
+  }
+
+  // element ids of the entities the given messages mention, read before their mentions are removed
+  private async getMentionedEntityIds(runner: any, messageIds: string[]): Promise<string[]> {
+    if (messageIds.length === 0) return [];
+
+    const result = await runner.run(
+      `
+      MATCH (m:Message)-[:MENTIONS]->(e:Entity)
+      WHERE m.id IN $messageIds
+      RETURN collect(DISTINCT elementId(e)) AS ids
+    `,
+      { messageIds }
+    );
+    return result.records[0]?.get("ids") || [];
+  }
+
+  // withdraws the given messages' support from relationships (also dropping support of messages that no
+  // longer exist), then removes relationships and entities nothing supports anymore. what survives gets
+  // its confidence recomputed from the remaining support. supported lists "relationship element id|message
+  // id" pairs a re-extracted message still states, which keep that message's support. only relationships
+  // of the given entities are visited, since relationship endpoints are always mentioned by the messages
+  // stating them; entityIds null checks the whole graph
+  private async collectEntityGarbage(
+    runner: any,
+    {
+      messageIds,
+      entityIds,
+      supported = [],
+    }: { messageIds: string[]; entityIds: string[] | null; supported?: string[] }
+  ): Promise<{
+    removedEntities: number;
+    removedRelationships: number;
+    updatedEntities: number;
+    updatedRelationships: number;
+  }> {
+    // saving new messages or deleting ones that mention nothing leaves nothing to collect
+    if (entityIds !== null && entityIds.length === 0) {
+      return { removedEntities: 0, removedRelationships: 0, updatedEntities: 0, updatedRelationships: 0 };
+    }
+
+    // the full sweep and the targeted pass are separate queries, so the targeted one looks entities up by id
+    const relationshipMatch =
+      entityIds === null
+        ? `MATCH (:Entity)-[r]->(:Entity)`
+        : `UNWIND $entityIds AS entityId
+      MATCH (e:Entity)-[r]-(:Entity)
+      WHERE elementId(e) = entityId
+      WITH DISTINCT r`;
+    const entityMatch =
+      entityIds === null
+        ? `MATCH (e:Entity)`
+        : `UNWIND $entityIds AS entityId
+      MATCH (e:Entity)
+      WHERE elementId(e) = entityId
+      WITH DISTINCT e`;
+
+    const relationships = await runner.run(
+      `
+      ${relationshipMatch}
+      WITH r
+      WHERE (r.supportingMessageIds IS NOT NULL OR r.sourceMessageId IS NOT NULL)
+        AND ($all OR any(id IN coalesce(r.supportingMessageIds, [r.sourceMessageId]) WHERE id IN $messageIds))
+      WITH r, ${SUPPORT_OF("r")} AS support
+      UNWIND support AS s
+      OPTIONAL MATCH (m:Message {id: s.id})
+      WITH r, support, collect(CASE
+        WHEN m IS NOT NULL AND (NOT s.id IN $messageIds OR elementId(r) + '|' + s.id IN $supported)
+        THEN {id: s.id, confidence: s.confidence, at: m.createdAt}
+      END) AS remaining
+      WITH r, size(remaining) < size(support) AS changed, remaining
+      WHERE changed
+      FOREACH (_ IN CASE WHEN size(remaining) = 0 THEN [1] ELSE [] END | DELETE r)
+      FOREACH (_ IN CASE WHEN size(remaining) > 0 THEN [1] ELSE [] END |
+        SET r.supportingMessageIds = [s IN remaining | s.id],
+            r.supportingConfidences = [s IN remaining | s.confidence],
+            r.confidence = reduce(c = 0.0, s IN remaining | CASE WHEN s.confidence > c THEN s.confidence ELSE c END),
+            r.mentionCount = size(remaining),
+            r.firstSeenAt = reduce(at = null, s IN remaining | CASE WHEN at IS NULL OR s.at < at THEN s.at ELSE at END),
+            r.lastSeenAt = reduce(at = null, s IN remaining | CASE WHEN at IS NULL OR s.at > at THEN s.at ELSE at END)
+      )
+      RETURN sum(CASE WHEN size(remaining) = 0 THEN 1 ELSE 0 END) AS removed,
+             sum(CASE WHEN size(remaining) > 0 THEN 1 ELSE 0 END) AS updated
+    `,
+      { messageIds, entityIds, supported, all: entityIds === null }
+    );
+
+    const entities = await runner.run(
+      `
+      ${entityMatch}
+      OPTIONAL MATCH (m:Message)-[mention:MENTIONS]->(e)
+      WITH e,
+           count(mention) AS mentions,
+           max(mention.confidence) AS confidence,
+           min(m.createdAt) AS firstSeenAt,
+           max(m.createdAt) AS lastSeenAt
+      WITH e, mentions, confidence, firstSeenAt, lastSeenAt, mentions = 0 AND NOT coalesce(e.pinned, false) AS orphaned,
+           mentions > 0 AND coalesce(
+             e.confidence <> confidence OR e.mentionCount <> mentions
+               OR e.firstSeenAt <> firstSeenAt OR e.lastSeenAt <> lastSeenAt,
+             true
+           ) AS changed
+      FOREACH (_ IN CASE WHEN orphaned THEN [1] ELSE [] END |
+        FOREACH (key IN [(k:EntityKey)-[:KEY_OF]->(e) | k] | DETACH DELETE key)
+        DETACH DELETE e
+      )
+      FOREACH (_ IN CASE WHEN changed THEN [1] ELSE [] END |
+        SET e.confidence = confidence,
+            e.mentionCount = mentions,
+            e.firstSeenAt = firstSeenAt,
+            e.lastSeenAt = lastSeenAt
+      )
+      RETURN sum(CASE WHEN orphaned THEN 1 ELSE 0 END) AS removed,
+             sum(CASE WHEN changed THEN 1 ELSE 0 END) AS updated
+    `,
+      { entityIds }
+    );
+
+    return {
+      removedEntities: this.toNumber(entities.records[0]?.get("removed")) ?? 0,
+      removedRelationships: this.toNumber(relationships.records[0]?.get("removed")) ?? 0,
+      updatedEntities: this.toNumber(entities.records[0]?.get("updated")) ?? 0,
+      updatedRelationships: this.toNumber(relationships.records[0]?.get("updated")) ?? 0,
+    };
+  }
+
+  // maintenance pass over the whole entity graph: removes entities no message mentions (except the global
+  // ones migrateEntityScopes pinned) and relationships whose supporting messages are all gone, and
+  // recomputes confidence, mention counts and first/last seen of what remains (which also backfills them
+  // for entities stored before they were tracked)
+  async pruneEntityGraph(): Promise<{
+    removedEntities: number;
+    removedRelationships: number;
+    updatedEntities: number;
+    updatedRelationships: number;
+  }> {
+    return this.transaction((tx) => this.collectEntityGarbage(tx, { messageIds: [], entityIds: null }));
+  }
+
+  // entities a resource can see (its own and, unless excluded, global ones), strongest first. mentions,
+  // last seen and strength only count the resource's own messages, so shared entities rank by what this
+  // resource talks about. with asOf only messages written by then count and later entities are left out
+  async getEntities({
+    resourceId,
+    type,
+    includeGlobal = true,
+    limit = 100,
+    offset = 0,
+    asOf,
+  }: {
+    resourceId: string;
+    type?: string;
+    includeGlobal?: boolean;
+    limit?: number;
+    offset?: number;
+    asOf?: Date;
+  }): Promise<any[]> {
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        MATCH (e:Entity)
+        WHERE (e.scope = $resourceId OR ($includeGlobal AND e.scope = $globalScope))
+          AND ($type IS NULL OR e.type = $type)
+        OPTIONAL MATCH (:Thread {resourceId: $resourceId})-[:CONTAINS]->(m:Message)-[mention:MENTIONS]->(e)
+        WHERE $asOf IS NULL OR m.createdAt <= datetime($asOf)
+        WITH e, count(m) AS mentions, max(m.createdAt) AS lastSeenAt, max(mention.confidence) AS confidence
+        WHERE (e.scope = $resourceId AND ($asOf IS NULL OR coalesce(e.firstSeenAt, e.createdAt) <= datetime($asOf)))
+          OR mentions > 0
+        WITH e, mentions, lastSeenAt,
+             ${this.strengthExpression(
+               "CASE WHEN $asOf IS NULL THEN e.confidence ELSE coalesce(confidence, e.confidence) END",
+               "mentions",
+               "coalesce(lastSeenAt, e.lastSeenAt, e.createdAt)"
+             )} AS strength
+        RETURN e, mentions, lastSeenAt, strength
+        ORDER BY strength DESC, mentions DESC, e.value ASC
+        SKIP toInteger($offset)
+        LIMIT toInteger($limit)
+      `,
+        {
+          resourceId,
+          type: type ?? null,
+          includeGlobal,
+          globalScope: GLOBAL_ENTITY_SCOPE,
+          offset: Math.floor(offset),
+          limit: Math.floor(limit),
+          ...this.strengthParams(asOf),
+        }
+      );
+
+      return result.records.map((record) => {
+        const lastSeenAt = record.get("lastSeenAt");
+        return {
+          ...this.mapNeo4jNodeToEntity(record.get("e")),
+          mentions: this.toNumber(record.get("mentions")) ?? 0,
+          lastSeenAt: lastSeenAt ? new Date(lastSeenAt.toString()) : undefined,
+          strength: record.get("strength") ?? 0,
+        };
+      });
+    } finally {
+      await session.close();
+    }
+  }
+
+  // entities reachable within depth hops over the resource's relationships, each with its closest path.
+  // confidence is the product of the relationship strengths (reinforced and decayed) along that path
+  async getEntityNeighbours({
+    resourceId,
+    type,
+    value,
+    depth = 1,
+    minConfidence = 0,
+    limit = 50,
+    asOf,
+  }: {
+    resourceId: string;
+    type: string;
+    value: string;
+    depth?: number;
+    minConfidence?: number;
+    limit?: number;
+    asOf?: Date;
+  }): Promise<any[]> {
+    const maxDepth = this.resolveEntityDepth(depth);
+    const session = this.driver.session({ database: this.database });
+
+    try {
+      const result = await session.run(
+        `
+        ${this.matchEntityByKey("e", "[$resourceId, $globalScope]", "$type", "$key")}
+        MATCH path = (e)-[rels*1..${maxDepth}]-(n:Entity)
+        WHERE n <> e
+          AND all(node IN nodes(path) WHERE node:Entity)
+          AND all(r IN rels WHERE r.scope = $resourceId AND ${this.relationshipStrength("r")} >= $minConfidence
+            AND ${this.validRelationshipCondition("r")})
+        WITH n, path,
+             reduce(confidence = 1.0, r IN relationships(path) | confidence * ${this.relationshipStrength("r")}) AS confidence
+        ORDER BY length(path) ASC, confidence DESC
+        WITH n, collect({path: path, confidence: confidence})[0] AS closest
+        RETURN n,
+               length(closest.path) AS distance,
+               closest.confidence AS confidence,
+               [r IN relationships(closest.path) | {
+                 type: type(r),
+                 from: {type: startNode(r).type, value: startNode(r).value},
+                 to: {type: endNode(r).type, value: endNode(r).value},
+                 confidence: r.confidence
+               }] AS relationships
+        ORDER BY distance ASC, confidence DESC
+        LIMIT toInteger($limit)
+      `,
+        {
+          resourceId,
+          type,
+          key: normalizeEntityKey(value, type),
+          minConfidence,
+          globalScope: GLOBAL_ENTITY_SCOPE,
+          limit: Math.floor(limit),
+          ...this.strengthParams(asOf),
+        }
+      );
+
+      return result.records.map((record) => ({
+        entity: this.mapNeo4jNodeToEntity(record.get("n")),
+        distance: this.toNumber(record.get("distance")),
+        confidence: record.get("confidence"),
+        relationships: record.get("relationships"),
+      }));
+    } finally {
+      await session.close();
+    }
+  }
+
+  // the resource's messages that mention an entity, newest first
+  async getEntityMentions({
+    resourceId,
+    type,
+    value,
+    limit = 20,
+  }: {
+    resourceId: string;
+    type: string;
+    value: string;
+    limit?: number;
+  }): Promise<{ message: any; confidence: number }[]> {
     const session = this.driver.session({ database: this.database });
+
     try {
-      await session.run(
+      const result = await session.run(
         `
-        MATCH (m:Message)
-        WHERE m.id IN $messageIds
-        DETACH DELETE m
+        ${this.matchEntityByKey("e", "[$resourceId, $globalScope]", "$type", "$key")}
+        MATCH (:Thread {resourceId: $resourceId})-[:CONTAINS]->(m:Message)-[mention:MENTIONS]->(e)
+        RETURN m, mention.confidence AS confidence
+        ORDER BY m.createdAt DESC
+        LIMIT toInteger($limit)
       `,
-        { messageIds }
+        {
+          resourceId,
+          type,
+          key: normalizeEntityKey(value, type),
+          globalScope: GLOBAL_ENTITY_SCOPE,
+          limit: Math.floor(limit),
+        }
       );
+
+      return result.records.map((record) => ({
+        message: this.mapNeo4jNodeToMessage(record.get("m")),
+        confidence: record.get("confidence"),
+      }));
     } finally {
       await session.close();
     }
   }
 
-  async deleteMessageById(messageId: string): Promise<void> {
+  // shortest chain of the resource's relationships connecting two entities, or null if there is none
+  async findEntityPath({
+    resourceId,
+    from,
+    to,
+    maxDepth = 4,
+    asOf,
+  }: {
+    resourceId: string;
+    from: { type: string; value: string };
+    to: { type: string; value: string };
+    maxDepth?: number;
+    asOf?: Date;
+  }): Promise<{ length: number; entities: any[]; relationships: any[] } | null> {
+    const depth = this.resolveEntityDepth(maxDepth);
     const session = this.driver.session({ database: this.database });
 
     try {
-      await session.run(
+      const result = await session.run(
         `
-        MATCH (m:Message {id: $messageId})
-        DETACH DELETE m
+        ${this.matchEntityByKey("a", "[$resourceId, $globalScope]", "$fromType", "$fromKey")}
+        ${this.matchEntityByKey("b", "[$resourceId, $globalScope]", "$toType", "$toKey")}
+          AND a <> b
+        MATCH path = shortestPath((a)-[*..${depth}]-(b))
+        WHERE all(r IN relationships(path) WHERE r.scope = $resourceId AND ${this.validRelationshipCondition("r")})
+        RETURN nodes(path) AS entities,
+               [r IN relationships(path) | {
+                 type: type(r),
+                 from: {type: startNode(r).type, value: startNode(r).value},
+                 to: {type: endNode(r).type, value: endNode(r).value},
+                 confidence: r.confidence
+               }] AS relationships
+        ORDER BY length(path) ASC
+        LIMIT 1
       `,
-        { messageId }
+        {
+          resourceId,
+          fromType: from.type,
+          fromKey: normalizeEntityKey(from.value, from.type),
+          toType: to.type,
+          toKey: normalizeEntityKey(to.value, to.type),
+          globalScope: GLOBAL_ENTITY_SCOPE,
+          asOf: this.serializeDate(asOf) ?? null,
+        }
       );
+
+      const record = result.records[0];
+      if (!record) return null;
+
+      const relationships = record.get("relationships");
+      return {
+        length: relationships.length,
+        entities: record.get("entities").map((node: any) => this.mapNeo4jNodeToEntity(node)),
+        relationships,
+      };
     } finally {
       await session.close();
     }
   }
 
-  private async createMessageEntities(session: any, messageData: any): Promise<void> {
-    const content = messageData.content;
-    if (!content || content.length < 3) return;
-
-    const entities = this.extractEntities(content);
-
-    for (const entity of entities) {
-      await this.createEntityNode(session, entity, messageData);
-    }
+  // graph-rag recall across all of a resource's threads: entities extracted from the query (with the
+  // write-time extractor) and their neighbours up to depth hops select messages, optionally joined by
+  // full-text hits. each result carries its per-signal scores and the reasons it matched. with asOf only
+  // messages written by then are recalled, and their recency is measured from asOf
+  async retrieveMessages({
+    query,
+    resourceId,
+    limit = 10,
+    depth = 1,
+    fullText = true,
+    recencyHalfLifeDays = 30,
+    weights,
+    asOf,
+  }: {
+    query: string;
+    resourceId: string;
+    limit?: number;
+    depth?: number;
+    fullText?: boolean;
+    recencyHalfLifeDays?: number;
+    weights?: Partial<typeof DEFAULT_RETRIEVAL_WEIGHTS>;
+    asOf?: Date;
+  }): Promise<{ message: any; score: number; scores: Record<string, number>; explanation: string[] }[]> {
+    const maxDepth = this.resolveEntityDepth(depth);
+    const weight = { ...DEFAULT_RETRIEVAL_WEIGHTS, ...(weights || {}) };
+
+    const { entities } = await this.entityExtractor.extract(query, {
+      messageId: "query",
+      threadId: "",
+      resourceId,
+      role: "user",
+    });
+    const seeds = entities.map(({ type, value }) => ({ type, key: normalizeEntityKey(value, type) }));
 
-    await this.createEntityRelationships(session, entities, messageData);
-  }
+    const session = this.driver.session({ database: this.database });
 
-  private extractEntities(text: string): Array<{ type: string; value: string; confidence: number }> {
-    const entities: Array<{ type: string; value: string; confidence: number }> = [];
+    try {
+      const candidates = new Map<
+        string,
+        { entity: number; relationship: number; fullText: number; reasons: string[] }
+      >();
+      const candidate = (messageId: string) => {
+        if (!candidates.has(messageId)) {
+          candidates.set(messageId, { entity: 0, relationship: 0, fullText: 0, reasons: [] });
+        }
+        return candidates.get(messageId)!;
+      };
 
-    // extract names (capitalized words that could be names)
-    const namePattern = /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g;
-    const names = text.match(namePattern) || [];
-    names.forEach((name) => {
-      if (name.length > 2 && !this.isCommonWord(name) && !this.isPronoun(name)) {
-        // only extract names that appear in context of introduction or reference
-        if (text.includes(`name is ${name}`) || text.includes(`I'm ${name}`) || text.includes(`call me ${name}`)) {
-          entities.push({ type: "Person", value: name, confidence: 0.9 });
+      if (seeds.length > 0) {
+        // a busy resource can have more candidates than are read, the closest and most confident are kept
+        const graph = await session.run(
+          `
+          UNWIND $seeds AS seed
+          ${this.matchEntityByKey("s", "[$resourceId, $globalScope]", "seed.type", "seed.key")}
+          CALL {
+            WITH s
+            RETURN s AS e, 0 AS distance, 1.0 AS confidence, [] AS via
+            UNION
+            WITH s
+            MATCH path = (s)-[rels*1..${maxDepth}]-(e:Entity)
+            WHERE e <> s
+              AND all(node IN nodes(path) WHERE node:Entity)
+              AND all(r IN rels WHERE r.scope = $resourceId AND ${this.validRelationshipCondition("r")})
+            RETURN e, length(path) AS distance, reduce(c = 1.0, r IN rels | c * ${this.relationshipStrength("r")}) AS confidence,
+                   [r IN rels | type(r)] AS via
+          }
+          MATCH (:Thread {resourceId: $resourceId})-[:CONTAINS]->(m:Message)-[mention:MENTIONS]->(e)
+          WHERE $asOf IS NULL OR m.createdAt <= datetime($asOf)
+          RETURN m.id AS messageId, s.type AS seedType, s.value AS seedValue, e.type AS type, e.value AS value,
+                 distance, confidence * mention.confidence AS confidence, via
+          ORDER BY distance ASC, confidence DESC
+          LIMIT 1000
+        `,
+          { seeds, resourceId, globalScope: GLOBAL_ENTITY_SCOPE, ...this.strengthParams(asOf) }
+        );
+
+        const seedsMatched = new Map<string, Set<string>>();
+        for (const record of graph.records) {
+          const messageId = record.get("messageId");
+          const scores = candidate(messageId);
+          const distance = this.toNumber(record.get("distance")) ?? 0;
+          const confidence = record.get("confidence");
+          const seed = `${record.get("seedType")} "${record.get("seedValue")}"`;
+
+          if (distance === 0) {
+            seedsMatched.set(messageId, (seedsMatched.get(messageId) || new Set()).add(seed));
+            scores.entity = seedsMatched.get(messageId)!.size / seeds.length;
+            scores.reasons.push(`mentions ${seed} from the query`);
+          } else {
+            scores.relationship = Math.max(scores.relationship, confidence);
+            scores.reasons.push(
+              `mentions ${record.get("type")} "${record.get("value")}", ${distance} hop(s) from ${seed} via ` +
+                `${record.get("via").join(" -> ")} (confidence ${confidence.toFixed(2)})`
+            );
+          }
         }
       }
-    });
 
-    // extract topics/interests (words after "love", "like", "interested in", etc.)
-    const interestPattern = /(?:love|like|enjoy|interested in|passionate about)\s+([^.!?]+)/gi;
-    const interests = text.match(interestPattern) || [];
-    interests.forEach((interest) => {
-      const topic = interest.replace(/(?:love|like|enjoy|interested in|passionate about)\s+/gi, "").trim();
-      // only extract meaningful topics (not too long or vague)
-      if (topic.length > 2 && topic.length < 50 && !topic.includes("to discuss") && !topic.includes("about them")) {
-        entities.push({ type: "Topic", value: topic, confidence: 0.8 });
+      const search = this.toFullTextQuery(query);
+      if (fullText && search) {
+        const hits = await session.run(
+          `
+          CALL db.index.fulltext.queryNodes("message_content_fulltext", $search) YIELD node, score
+          MATCH (:Thread {resourceId: $resourceId})-[:CONTAINS]->(node)
+          WHERE $asOf IS NULL OR node.createdAt <= datetime($asOf)
+          RETURN node.id AS messageId, score
+          ORDER BY score DESC
+          LIMIT toInteger($candidates)
+        `,
+          { search, resourceId, candidates: Math.max(limit * 5, 50), asOf: this.serializeDate(asOf) ?? null }
+        );
+
+        // lucene scores are unbounded, the best hit defines 1
+        const best = hits.records[0]?.get("score") || 1;
+        for (const record of hits.records) {
+          const scores = candidate(record.get("messageId"));
+          scores.fullText = record.get("score") / best;
+          scores.reasons.push(`full-text match (score ${scores.fullText.toFixed(2)})`);
+        }
       }
-    });
 
-    // extract technologies (common tech terms)
-    const techPattern =
-      /\b(?:graph database|neo4j|database|AI|machine learning|python|javascript|typescript|react|node\.?js)\b/gi;
-    const techs = text.match(techPattern) || [];
-    techs.forEach((tech) => {
-      entities.push({ type: "Technology", value: tech.toLowerCase(), confidence: 0.9 });
-    });
+      if (candidates.size === 0) return [];
 
-    // extract questions
-    if (text.includes("?")) {
-      const questionWords = ["what", "how", "why", "when", "where", "who"];
-      const hasQuestionWord = questionWords.some((word) => text.toLowerCase().includes(word));
-      if (hasQuestionWord) {
-        entities.push({ type: "Question", value: text.substring(0, 50) + "...", confidence: 0.6 });
-      }
+      const result = await session.run(
+        `
+        MATCH (m:Message)
+        WHERE m.id IN $ids
+        RETURN m
+      `,
+        { ids: Array.from(candidates.keys()) }
+      );
+
+      const now = asOf ? asOf.getTime() : Date.now();
+      return result.records
+        .map((record) => {
+          const message = this.mapNeo4jNodeToMessage(record.get("m"));
+          const { reasons, ...signals } = candidates.get(message.id)!;
+          const ageDays = Math.max(0, now - message.createdAt.getTime()) / 86400000;
+          const scores = { ...signals, recency: Math.pow(0.5, ageDays / recencyHalfLifeDays) };
+
+          return {
+            message,
+            score:
+              weight.entity * scores.entity +
+              weight.relationship * scores.relationship +
+              weight.recency * scores.recency +
+              weight.fullText * scores.fullText,
+            scores,
+            explanation: [...reasons, `recency ${scores.recency.toFixed(2)} (${ageDays.toFixed(1)} days old)`],
+          };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } finally {
+      await session.close();
     }
+  }
 
-    return entities;
+  // plain words joined as optional lucene terms, so query text can't inject lucene syntax
+  private toFullTextQuery(query: string): string {
+    return (query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((word) => word.length > 2).join(" ");
   }
 
-  // check if a word is too common to be a meaningful entity
-  private isCommonWord(word: string): boolean {
-    const commonWords = ["The", "This", "That", "There", "Here", "Hello", "Hi", "Yes", "No", "Thank", "Please"];
-    return commonWords.includes(word);
+  // options left out (or undefined) keep their defaults; anything else has to make sense as a rate and a
+  // duration, a non-positive half-life would divide by zero or grow strength with age
+  private resolveEntityConfidence(config: Neo4jStorageConfig["entityConfidence"]): {
+    reinforcement: number;
+    halfLifeDays: number;
+  } {
+    const reinforcement = config?.reinforcement ?? 0.2;
+    const halfLifeDays = config?.halfLifeDays ?? 90;
+
+    if (typeof reinforcement !== "number" || !(reinforcement >= 0 && reinforcement <= 1)) {
+      throw new Neo4jStorageValidationError("entityConfidence.reinforcement must be a number from 0 to 1");
+    }
+    if (typeof halfLifeDays !== "number" || !(halfLifeDays > 0) || !Number.isFinite(halfLifeDays)) {
+      throw new Neo4jStorageValidationError("entityConfidence.halfLifeDays must be a positive number");
+    }
+    return { reinforcement, halfLifeDays };
   }
 
-  // check if a word is a pronoun or common word that shouldn't be treated as a person
-  private isPronoun(word: string): boolean {
-    const pronouns = ["They", "What", "Could", "Would", "Should", "Will", "Can", "May", "Might", "Must", "Shall"];
-    return pronouns.includes(word);
+  // traversal depths are interpolated into cypher, so only small positive integers get through
+  private resolveEntityDepth(depth: number): number {
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_ENTITY_DEPTH) {
+      throw new Neo4jStorageValidationError(`Entity traversal depth must be an integer from 1 to ${MAX_ENTITY_DEPTH}`);
+    }
+    return depth;
   }
 
-  // create entity nodes and relationships
-  private async createEntityNode(
-    session: any,
-    entity: { type: string; value: string; confidence: number },
-    messageData: any
-  ): Promise<void> {
-    try {
-      await session.run(
+  // splits entities stored before scoping into one copy per resource that mentioned them, keyed like
+  // entities written today (a key already merged into another entity resolves to it). mentions move
+  // to the copy and the unscoped node is removed; entities nobody mentions become global and are pinned,
+  // so collecting unmentioned entities (pruneEntityGraph included) keeps them, unless a global entity
+  // of that key already exists. an unscoped
+  // relationship is only copied into resources with a message mentioning both ends, supported by those
+  // messages, anything else can't be attributed to a resource and is dropped. safe to run more than once
+  async migrateEntityScopes(): Promise<{ scopedEntities: number; globalEntities: number; removedEntities: number }> {
+    return this.transaction(async (tx) => {
+      // keys are normalized in code, so unscoped entities get theirs before anything is copied
+      const unscoped = await tx.run(`
+        MATCH (e:Entity)
+        WHERE e.scope IS NULL
+        RETURN elementId(e) AS id, e.type AS type, e.value AS value
+      `);
+      await tx.run(
         `
-        MATCH (m:Message {id: $messageId})
-        MERGE (e:Entity {type: $type, value: $value})
-        ON CREATE SET e.confidence = $confidence, e.createdAt = datetime()
-        ON MATCH SET e.confidence = CASE 
-          WHEN e.confidence < $confidence THEN $confidence 
-          ELSE e.confidence 
-        END
-        CREATE (m)-[:MENTIONS {confidence: $confidence}]->(e)
-        `,
+        UNWIND $entities AS entity
+        MATCH (e:Entity)
+        WHERE elementId(e) = entity.id
+        SET e.key = entity.key
+      `,
         {
-          messageId: messageData.id,
-          type: entity.type,
-          value: entity.value,
-          confidence: entity.confidence,
+          entities: unscoped.records.map((record: any) => ({
+            id: record.get("id"),
+            key: normalizeEntityKey(record.get("value"), record.get("type")),
+          })),
         }
       );
-    } catch (error) {
-      // silently continue if entity creation fails
-      console.warn(`Failed to create entity: ${entity.type}:${entity.value}`, error);
-    }
+
+      const split = await tx.run(`
+        MATCH (e:Entity)
+        WHERE e.scope IS NULL
+        MATCH (t:Thread)-[:CONTAINS]->(m:Message)-[mention:MENTIONS]->(e)
+        WHERE t.resourceId IS NOT NULL
+        WITH e, t.resourceId AS resourceId, collect(mention) AS mentions
+        MERGE (k:EntityKey {scope: resourceId, type: e.type, key: e.key})
+        WITH e, resourceId, mentions, k
+        CALL {
+          WITH k
+          OPTIONAL MATCH (k)-[:KEY_OF]->(resolved:Entity)
+          RETURN head(collect(resolved.key)) AS resolvedKey
+        }
+        MERGE (scoped:Entity {scope: resourceId, type: e.type, key: coalesce(resolvedKey, e.key)})
+        ON CREATE SET scoped.value = e.value,
+                      scoped.aliases = [e.value],
+                      scoped.confidence = e.confidence,
+                      scoped.createdAt = e.createdAt
+        SET scoped.aliases = CASE
+              WHEN e.value IN coalesce(scoped.aliases, []) THEN scoped.aliases
+              ELSE coalesce(scoped.aliases, []) + e.value
+            END
+        MERGE (k)-[:KEY_OF]->(scoped)
+        WITH e, scoped, mentions
+        UNWIND mentions AS mention
+        WITH e, scoped, mention, startNode(mention) AS m
+        CREATE (m)-[moved:MENTIONS]->(scoped)
+        SET moved = properties(mention)
+        DELETE mention
+        RETURN count(DISTINCT scoped) AS scoped, collect(DISTINCT elementId(e)) AS split
+      `);
+
+      const types = await tx.run(`
+        MATCH (e1:Entity)-[r]->(e2:Entity)
+        WHERE e1.scope IS NULL OR e2.scope IS NULL
+        RETURN DISTINCT type(r) AS type
+      `);
+
+      for (const record of types.records) {
+        const relationshipType = record.get("type");
+        this.assertIdentifier(relationshipType);
+
+        await tx.run(
+          `
+          MATCH (e1:Entity)-[r:${relationshipType}]->(e2:Entity)
+          WHERE e1.scope IS NULL OR e2.scope IS NULL
+          MATCH (t:Thread)-[:CONTAINS]->(m:Message)-[:MENTIONS]->(s1:Entity)<-[:KEY_OF]-(:EntityKey {type: e1.type, key: e1.key}),
+                (m)-[:MENTIONS]->(s2:Entity)<-[:KEY_OF]-(:EntityKey {type: e2.type, key: e2.key})
+          WHERE t.resourceId IS NOT NULL
+            AND s1.scope IN [t.resourceId, $globalScope] AND s2.scope IN [t.resourceId, $globalScope]
+          WITH r, s1, s2, t.resourceId AS resourceId, m
+          ORDER BY m.createdAt ASC
+          WITH r, s1, s2, resourceId, collect(DISTINCT m) AS messages
+          MERGE (s1)-[copy:${relationshipType} {scope: resourceId}]->(s2)
+          ON CREATE SET copy.confidence = r.confidence,
+                        copy.createdAt = r.createdAt,
+                        copy.validFrom = messages[0].createdAt,
+                        copy.sourceMessageId = messages[0].id,
+                        copy.supportingMessageIds = [m IN messages | m.id],
+                        copy.supportingConfidences = [m IN messages | r.confidence],
+                        copy.mentionCount = size(messages),
+                        copy.firstSeenAt = messages[0].createdAt,
+                        copy.lastSeenAt = messages[size(messages) - 1].createdAt
+        `,
+          { globalScope: GLOBAL_ENTITY_SCOPE }
+        );
+
+        await tx.run(`
+          MATCH (e1:Entity)-[r:${relationshipType}]->(e2:Entity)
+          WHERE r.scope IS NULL AND (e1.scope IS NULL OR e2.scope IS NULL)
+          DELETE r
+        `);
+      }
+
+      // only the entities whose own mentions were copied above are gone; an unmentioned one that an
+      // existing global entity (or an older unmentioned one) already covers is a duplicate of it, any
+      // other is kept as a global
+      const cleanup = await tx.run(
+        `
+        MATCH (e:Entity)
+        WHERE e.scope IS NULL
+        OPTIONAL MATCH (existing:EntityKey {scope: $globalScope, type: e.type, key: e.key})
+        WITH e, elementId(e) IN $split OR existing IS NOT NULL AS copied
+        ORDER BY e.createdAt ASC
+        WITH e.type AS type, e.key AS key,
+             collect(CASE WHEN copied THEN null ELSE e END) AS kept,
+             collect(CASE WHEN copied THEN e END) AS duplicates
+        WITH kept[0] AS global, duplicates + kept[1..] AS removed
+        FOREACH (e IN CASE WHEN global IS NULL THEN [] ELSE [global] END |
+          SET e.scope = $globalScope, e.pinned = true, e.aliases = coalesce(e.aliases, [e.value])
+          MERGE (k:EntityKey {scope: $globalScope, type: e.type, key: e.key})
+          MERGE (k)-[:KEY_OF]->(e)
+        )
+        FOREACH (e IN removed | DETACH DELETE e)
+        RETURN count(global) AS globalEntities, sum(size(removed)) AS removedEntities
+      `,
+        { globalScope: GLOBAL_ENTITY_SCOPE, split: split.records[0]?.get("split") || [] }
+      );
+
+      return {
+        scopedEntities: this.toNumber(split.records[0]?.get("scoped")) ?? 0,
+        globalEntities: this.toNumber(cleanup.records[0]?.get("globalEntities")) ?? 0,
+        removedEntities: this.toNumber(cleanup.records[0]?.get("removedEntities")) ?? 0,
+      };
+    });
   }
 
-  // create relationships between entities mentioned in the same message
-  private async createEntityRelationships(
-    session: any,
-    entities: Array<{ type: string; value: string; confidence: number }>,
-    messageData: any
-  ): Promise<void> {
-    if (entities.length < 2) return;
+  // merges a duplicate entity into another of the same scope: mentions and relationships move to the
+  // target, current facts both held towards the same entity are combined, facts between the two are
+  // dropped, and the source's spellings and key become aliases of the target, so later mentions of the
+  // source resolve to the target. entities are looked up in the resource's scope first, then the global
+  // one (only the global one without resourceId). returns null when either entity doesn't exist
+  async mergeEntities({
+    resourceId,
+    source,
+    target,
+  }: {
+    resourceId?: string;
+    source: { type: string; value: string };
+    target: { type: string; value: string };
+  }): Promise<any | null> {
+    return this.transaction(async (tx) => {
+      const sourceEntity = await this.findEntityNode(tx, resourceId, source);
+      const targetEntity = await this.findEntityNode(tx, resourceId, target);
+      if (!sourceEntity || !targetEntity) return null;
+
+      if (sourceEntity.id === targetEntity.id) {
+        throw new Neo4jStorageValidationError(`Cannot merge ${source.type} "${source.value}" into itself`);
+      }
+      if (sourceEntity.scope !== targetEntity.scope) {
+        throw new Neo4jStorageValidationError(
+          `Cannot merge ${source.type} "${source.value}" into ${target.type} "${target.value}": entities belong to different scopes`
+        );
+      }
 
-    try {
-      // create relationships between different entity types
-      for (let i = 0; i < entities.length; i++) {
-        for (let j = i + 1; j < entities.length; j++) {
-          const entity1 = entities[i];
-          const entity2 = entities[j];
-
-          // create meaningful relationships based on entity types
-          let relationshipType = "RELATED_TO";
-          if (entity1.type === "Person" && entity2.type === "Topic") {
-            relationshipType = "INTERESTED_IN";
-          } else if (entity1.type === "Person" && entity2.type === "Technology") {
-            relationshipType = "USES";
-          } else if (entity1.type === "Topic" && entity2.type === "Technology") {
-            relationshipType = "IMPLEMENTS";
+      return this.mapNeo4jNodeToEntity(await this.mergeEntityNodes(tx, sourceEntity.id, targetEntity.id));
+    });
+  }
+
+  // records other spellings of an entity. their keys resolve to the entity from now on, and an existing
+  // entity of the same scope and type under one of them is merged into it. the keys are locked like a
+  // writer would, so mentions written meanwhile end up on the entity. returns null when the entity
+  // doesn't exist
+  async addEntityAliases({
+    resourceId,
+    type,
+    value,
+    aliases,
+  }: {
+    resourceId?: string;
+    type: string;
+    value: string;
+    aliases: string[];
+  }): Promise<any | null> {
+    return this.transaction(async (tx) => {
+      const entity = await this.findEntityNode(tx, resourceId, { type, value });
+      if (!entity) return null;
+
+      const result = await tx.run(
+        `
+        MATCH (e:Entity)
+        WHERE elementId(e) = $id
+        SET e.aliases = reduce(aliases = coalesce(e.aliases, [e.value]), alias IN $aliases |
+              CASE WHEN alias IN aliases THEN aliases ELSE aliases + alias END)
+        WITH e
+        CALL {
+          WITH e
+          UNWIND $keys AS key
+          MERGE (k:EntityKey {scope: e.scope, type: e.type, key: key})
+          SET k._lock = true
+          REMOVE k._lock
+          WITH e, k
+          CALL {
+            WITH k
+            OPTIONAL MATCH (k)-[:KEY_OF]->(owner:Entity)
+            RETURN head(collect(owner)) AS owner
           }
+          FOREACH (_ IN CASE WHEN owner IS NULL THEN [1] ELSE [] END | MERGE (k)-[:KEY_OF]->(e))
+          RETURN collect(DISTINCT CASE WHEN owner <> e THEN elementId(owner) END) AS duplicates
+        }
+        RETURN e, duplicates
+      `,
+        { id: entity.id, aliases, keys: aliases.map((alias) => normalizeEntityKey(alias, type)) }
+      );
+
+      let node = result.records[0].get("e");
+      for (const duplicate of result.records[0].get("duplicates")) {
+        node = await this.mergeEntityNodes(tx, duplicate, entity.id);
+      }
+      return this.mapNeo4jNodeToEntity(node);
+    });
+  }
+
+  // gives entities stored before keys were tracked, or under a key normalizeEntityKey no longer produces,
+  // their normalized key; a replaced key stays an alias so it still resolves to the entity. those whose
+  // key another entity of the same scope and type already has are merged into it. keys and aliases
+  // stored on the entity before EntityKey nodes existed get their nodes first. run after
+  // migrateEntityScopes, entities without a scope are left alone. safe to run more than once
+  async migrateEntityKeys(): Promise<{ keyedEntities: number; mergedEntities: number }> {
+    return this.transaction(async (tx) => {
+      await tx.run(`
+        MATCH (e:Entity)
+        WHERE e.scope IS NOT NULL AND e.key IS NOT NULL
+        UNWIND [e.key] + coalesce(e.aliasKeys, []) AS key
+        MERGE (k:EntityKey {scope: e.scope, type: e.type, key: key})
+        WITH e, k
+        WHERE NOT EXISTS { MATCH (k)-[:KEY_OF]->(:Entity) }
+        MERGE (k)-[:KEY_OF]->(e)
+      `);
+      await tx.run(`
+        MATCH (e:Entity)
+        WHERE e.aliasKeys IS NOT NULL
+        REMOVE e.aliasKeys
+      `);
 
-          await session.run(
+      const entities = await tx.run(`
+        MATCH (e:Entity)
+        WHERE e.scope IS NOT NULL
+        RETURN elementId(e) AS id, e.scope AS scope, e.type AS type, e.value AS value, e.key AS key
+        ORDER BY e.createdAt ASC
+      `);
+
+      let keyedEntities = 0;
+      let mergedEntities = 0;
+      for (const record of entities.records) {
+        const key = normalizeEntityKey(record.get("value"), record.get("type"));
+        if (record.get("key") === key) continue;
+
+        const existing = await tx.run(
+          `
+          ${this.matchEntityByKey("e", "[$scope]", "$type", "$key")}
+            AND elementId(e) <> $id
+          RETURN elementId(e) AS id
+          LIMIT 1
+        `,
+          { id: record.get("id"), scope: record.get("scope"), type: record.get("type"), key }
+        );
+
+        if (existing.records.length > 0) {
+          await this.mergeEntityNodes(tx, record.get("id"), existing.records[0].get("id"));
+          mergedEntities++;
+        } else {
+          await tx.run(
             `
-            MATCH (e1:Entity {type: $type1, value: $value1})
-            MATCH (e2:Entity {type: $type2, value: $value2})
-            MERGE (e1)-[r:${relationshipType}]->(e2)
-            ON CREATE SET r.confidence = $confidence, r.createdAt = datetime()
-            ON MATCH SET r.confidence = CASE 
-              WHEN r.confidence < $confidence THEN $confidence 
-              ELSE r.confidence 
-            END
-            `,
-            {
-              type1: entity1.type,
-              value1: entity1.value,
-              type2: entity2.type,
-              value2: entity2.value,
-              confidence: Math.min(entity1.confidence, entity2.confidence),
-            }
+            MATCH (e:Entity)
+            WHERE elementId(e) = $id
+            SET e.key = $key, e.aliases = coalesce(e.aliases, [e.value])
+            MERGE (k:EntityKey {scope: e.scope, type: e.type, key: $key})
+            MERGE (k)-[:KEY_OF]->(e)
+          `,
+            { id: record.get("id"), key }
           );
+          keyedEntities++;
         }
       }
-    } catch (error) {
-      console.warn("Failed to create entity relationships", error);
+
+      return { keyedEntities, mergedEntities };
+    });
+  }
+
+  // the entity a resource means by type and value: its own, else the global one
+  private async findEntityNode(
+    runner: any,
+    resourceId: string | undefined,
+    entity: { type: string; value: string }
+  ): Promise<{ id: string; scope: string } | null> {
+    const result = await runner.run(
+      `
+      ${this.matchEntityByKey("e", "$scopes", "$type", "$key")}
+      RETURN elementId(e) AS id, e.scope AS scope
+      ORDER BY CASE WHEN e.scope = $globalScope THEN 1 ELSE 0 END
+      LIMIT 1
+    `,
+      {
+        type: entity.type,
+        key: normalizeEntityKey(entity.value, entity.type),
+        scopes: resourceId ? [resourceId, GLOBAL_ENTITY_SCOPE] : [GLOBAL_ENTITY_SCOPE],
+        globalScope: GLOBAL_ENTITY_SCOPE,
+      }
+    );
+
+    const record = result.records[0];
+    return record ? { id: record.get("id"), scope: record.get("scope") } : null;
+  }
+
+  // moves everything of the source entity onto the target and deletes it. the keys of both entities are
+  // write locked first, in the order writers lock them (key, then entity), so writers mentioning either
+  // entity wait for the merge and then resolve the source's keys to the target
+  private async mergeEntityNodes(tx: any, sourceId: string, targetId: string): Promise<any> {
+    const ids = { sourceId, targetId };
+
+    await tx.run(
+      `
+      MATCH (key:EntityKey)-[:KEY_OF]->(e:Entity)
+      WHERE elementId(e) IN [$sourceId, $targetId]
+      SET key._lock = true
+      REMOVE key._lock
+    `,
+      ids
+    );
+
+    await tx.run(
+      `
+      MATCH (source:Entity), (target:Entity)
+      WHERE elementId(source) = $sourceId AND elementId(target) = $targetId
+      SET source._lock = true, target._lock = true
+      REMOVE source._lock, target._lock
+    `,
+      ids
+    );
+
+    // a message mentioning both keeps one mention with the higher confidence
+    await tx.run(
+      `
+      MATCH (source:Entity), (target:Entity)
+      WHERE elementId(source) = $sourceId AND elementId(target) = $targetId
+      MATCH (m:Message)-[mention:MENTIONS]->(source)
+      OPTIONAL MATCH (m)-[existing:MENTIONS]->(target)
+      WITH target, m, mention, head(collect(existing)) AS existing
+      FOREACH (_ IN CASE WHEN existing IS NULL THEN [1] ELSE [] END |
+        CREATE (m)-[moved:MENTIONS]->(target)
+        SET moved = properties(mention)
+      )
+      FOREACH (_ IN CASE WHEN existing.confidence < mention.confidence THEN [1] ELSE [] END |
+        SET existing.confidence = mention.confidence
+      )
+      DELETE mention
+    `,
+      ids
+    );
+
+    const types = await tx.run(
+      `
+      MATCH (source:Entity)-[r]-(:Entity)
+      WHERE elementId(source) = $sourceId
+      RETURN DISTINCT type(r) AS type
+    `,
+      ids
+    );
+
+    for (const record of types.records) {
+      const relationshipType = record.get("type");
+      this.assertIdentifier(relationshipType);
+
+      await tx.run(
+        `
+        MATCH (source:Entity), (target:Entity)
+        WHERE elementId(source) = $sourceId AND elementId(target) = $targetId
+        MATCH (source)-[r:${relationshipType}]-(other:Entity)
+        WITH target, r, other, other <> source AND other <> target AS kept, startNode(r) = other AS incoming
+        FOREACH (_ IN CASE WHEN kept AND NOT incoming THEN [1] ELSE [] END |
+          CREATE (target)-[moved:${relationshipType}]->(other)
+          SET moved = properties(r)
+        )
+        FOREACH (_ IN CASE WHEN kept AND incoming THEN [1] ELSE [] END |
+          CREATE (other)-[moved:${relationshipType}]->(target)
+          SET moved = properties(r)
+        )
+        DELETE r
+      `,
+        ids
+      );
+
+      // a current fact the target already held towards the same entity absorbs the moved one
+      await tx.run(
+        `
+        MATCH (target:Entity)
+        WHERE elementId(target) = $targetId
+        MATCH (target)-[kept:${relationshipType}]-(other:Entity)
+        MATCH (target)-[duplicate:${relationshipType}]-(other)
+        WHERE elementId(kept) < elementId(duplicate)
+          AND startNode(kept) = startNode(duplicate)
+          AND kept.scope = duplicate.scope
+          AND kept.validTo IS NULL AND duplicate.validTo IS NULL
+        WITH kept, duplicate, ${SUPPORT_OF("kept")} + ${SUPPORT_OF("duplicate")} AS support
+        WITH kept, duplicate,
+             [i IN range(0, size(support) - 1) WHERE NOT support[i].id IN [s IN support[0..i] | s.id] | support[i]] AS support
+        SET kept.supportingMessageIds = [s IN support | s.id],
+            kept.supportingConfidences = [s IN support | s.confidence],
+            kept.mentionCount = size(support),
+            kept.confidence = CASE WHEN duplicate.confidence > kept.confidence THEN duplicate.confidence ELSE kept.confidence END,
+            kept.validFrom = CASE WHEN duplicate.validFrom < kept.validFrom THEN duplicate.validFrom ELSE kept.validFrom END,
+            kept.firstSeenAt = CASE WHEN duplicate.firstSeenAt < kept.firstSeenAt THEN duplicate.firstSeenAt ELSE kept.firstSeenAt END,
+            kept.lastSeenAt = CASE WHEN duplicate.lastSeenAt > kept.lastSeenAt THEN duplicate.lastSeenAt ELSE kept.lastSeenAt END
+        DELETE duplicate
+      `,
+        ids
+      );
     }
+
+    // the source's keys, its own included, resolve to the target from now on
+    await tx.run(
+      `
+      MATCH (source:Entity), (target:Entity)
+      WHERE elementId(source) = $sourceId AND elementId(target) = $targetId
+      OPTIONAL MATCH (key:EntityKey)-[of:KEY_OF]->(source)
+      DELETE of
+      WITH source, target, collect(key) AS keys
+      FOREACH (key IN keys | MERGE (key)-[:KEY_OF]->(target))
+      WITH source, target
+      WHERE source.key IS NOT NULL
+      MERGE (own:EntityKey {scope: source.scope, type: source.type, key: source.key})
+      MERGE (own)-[:KEY_OF]->(target)
+    `,
+      ids
+    );
+
+    const result = await tx.run(
+      `
+      MATCH (source:Entity), (target:Entity)
+      WHERE elementId(source) = $sourceId AND elementId(target) = $targetId
+      OPTIONAL MATCH (m:Message)-[mention:MENTIONS]->(target)
+      WITH source, target,
+           count(mention) AS mentions,
+           max(mention.confidence) AS confidence,
+           min(m.createdAt) AS firstSeenAt,
+           max(m.createdAt) AS lastSeenAt
+      SET target.aliases = reduce(aliases = coalesce(target.aliases, [target.value]),
+            alias IN coalesce(source.aliases, []) + [source.value] |
+            CASE WHEN alias IN aliases THEN aliases ELSE aliases + alias END),
+          target.confidence = coalesce(confidence, target.confidence),
+          target.mentionCount = mentions,
+          target.firstSeenAt = coalesce(firstSeenAt, target.firstSeenAt),
+          target.lastSeenAt = coalesce(lastSeenAt, target.lastSeenAt),
+          target.pinned = CASE WHEN source.pinned THEN true ELSE target.pinned END
+      DETACH DELETE source
+      RETURN target
+    `,
+      ids
+    );
+
+    return result.records[0].get("target");
   }
 
   // helper methods to map neo4j nodes to mastra objects
@@ -1100,19 +4393,214 @@ export class Neo4jStorage {
     };
   }
 
+  private mapNeo4jNodeToWorkflowRun(node: any): any {
+    if (!node) return null;
+
+    return {
+      workflowName: node.properties.workflowName,
+      runId: node.properties.runId,
+      resourceId: node.properties.resourceId ?? undefined,
+      snapshot: node.properties.snapshot ? JSON.parse(node.properties.snapshot) : null,
+      createdAt: new Date(node.properties.createdAt.toString()),
+      updatedAt: new Date(node.properties.updatedAt.toString()),
+    };
+  }
+
+  private mapNeo4jNodeToScore(node: any): any {
+    if (!node) return null;
+
+    return {
+      ...(node.properties.data ? JSON.parse(node.properties.data) : {}),
+      id: node.properties.id,
+      createdAt: new Date(node.properties.createdAt.toString()),
+      updatedAt: new Date(node.properties.updatedAt.toString()),
+    };
+  }
+
+  private mapNeo4jNodeToEval(node: any): any {
+    if (!node) return null;
+
+    return {
+      agentName: node.properties.agentName,
+      metricName: node.properties.metricName,
+      input: node.properties.input,
+      output: node.properties.output,
+      result: node.properties.result ? JSON.parse(node.properties.result) : {},
+      instructions: node.properties.instructions,
+      testInfo: node.properties.testInfo ? JSON.parse(node.properties.testInfo) : undefined,
+      runId: node.properties.runId,
+      globalRunId: node.properties.globalRunId,
+      threadId: node.properties.threadId ?? undefined,
+      messageId: node.properties.messageId ?? undefined,
+      createdAt: new Date(node.properties.createdAt.toString()).toISOString(),
+    };
+  }
+
+  private mapNeo4jNodeToAISpan(node: any): any {
+    if (!node) return null;
+
+    const span: Record<string, any> = {
+      traceId: node.properties.traceId,
+      spanId: node.properties.spanId,
+      parentSpanId: node.properties.parentSpanId ?? null,
+      name: node.properties.name,
+      spanType: node.properties.spanType,
+      isEvent: node.properties.isEvent ?? false,
+    };
+
+    for (const field of AI_SPAN_JSON_FIELDS) {
+      span[field] = node.properties[field] ? JSON.parse(node.properties[field]) : null;
+    }
+
+    for (const field of AI_SPAN_DATE_FIELDS) {
+      span[field] = node.properties[field] ? new Date(node.properties[field].toString()) : null;
+    }
+
+    return span;
+  }
+
+  private mapNeo4jNodeToTrace(node: any): any {
+    if (!node) return null;
+
+    const trace: Record<string, any> = {
+      id: node.properties.id,
+      parentSpanId: node.properties.parentSpanId ?? null,
+      name: node.properties.name,
+      traceId: node.properties.traceId,
+      scope: node.properties.scope,
+      kind: this.toNumber(node.properties.kind),
+      startTime: this.toNumber(node.properties.startTime),
+      endTime: this.toNumber(node.properties.endTime),
+      createdAt: new Date(node.properties.createdAt.toString()).toISOString(),
+    };
+
+    for (const field of TRACE_JSON_FIELDS) {
+      trace[field] = node.properties[field] ? JSON.parse(node.properties[field]) : null;
+    }
+
+    return trace;
+  }
+
+  private mapNeo4jNodeToEntity(node: any): any {
+    if (!node) return null;
+
+    const global = node.properties.scope === GLOBAL_ENTITY_SCOPE;
+
+    return {
+      type: node.properties.type,
+      value: node.properties.value,
+      key: node.properties.key ?? undefined,
+      aliases: node.properties.aliases ?? [],
+      scope: global ? "global" : "resource",
+      resourceId: global ? undefined : (node.properties.scope ?? undefined),
+      confidence: node.properties.confidence,
+      mentionCount: this.toNumber(node.properties.mentionCount) ?? undefined,
+      firstSeenAt: node.properties.firstSeenAt ? new Date(node.properties.firstSeenAt.toString()) : undefined,
+      lastSeenAt: node.properties.lastSeenAt ? new Date(node.properties.lastSeenAt.toString()) : undefined,
+      createdAt: node.properties.createdAt ? new Date(node.properties.createdAt.toString()) : undefined,
+    };
+  }
+
+  private mapNeo4jRelationshipToFact(relationship: any): any {
+    if (!relationship) return null;
+
+    const validTo = relationship.properties.validTo ? new Date(relationship.properties.validTo.toString()) : undefined;
+
+    return {
+      confidence: relationship.properties.confidence,
+      validFrom: relationship.properties.validFrom
+        ? new Date(relationship.properties.validFrom.toString())
+        : new Date(relationship.properties.createdAt.toString()),
+      validTo,
+      current: validTo === undefined,
+      mentionCount: this.toNumber(relationship.properties.mentionCount) ?? 1,
+      lastSeenAt: relationship.properties.lastSeenAt
+        ? new Date(relationship.properties.lastSeenAt.toString())
+        : undefined,
+      sourceMessageId: relationship.properties.sourceMessageId ?? undefined,
+      closedByMessageId: relationship.properties.closedByMessageId ?? undefined,
+    };
+  }
+
+  private mapNeo4jNodeToToolCall(node: any): any {
+    if (!node) return null;
+
+    return {
+      toolCallId: node.properties.toolCallId,
+      toolName: node.properties.toolName,
+      state: node.properties.state,
+      args: node.properties.args ? JSON.parse(node.properties.args) : {},
+      result: node.properties.result ? JSON.parse(node.properties.result) : undefined,
+      threadId: node.properties.threadId,
+      resourceId: node.properties.resourceId ?? undefined,
+      durationMs: this.toNumber(node.properties.durationMs) ?? undefined,
+      createdAt: new Date(node.properties.createdAt.toString()),
+      completedAt: node.properties.completedAt ? new Date(node.properties.completedAt.toString()) : undefined,
+    };
+  }
+
+  // messages map to mastra's v2 shape; formatMessages converts them for the caller
   private mapNeo4jNodeToMessage(node: any): any {
     if (!node) return null;
 
+    const metadata = node.properties.metadata ? JSON.parse(node.properties.metadata) : {};
+
+    // messages stored before structured content was kept only have their text
+    const content = node.properties.contentJson
+      ? JSON.parse(node.properties.contentJson)
+      : {
+          format: 2,
+          parts: [{ type: "text", text: node.properties.content ?? "" }],
+          content: node.properties.content ?? "",
+          ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+        };
+
     return {
       id: node.properties.id,
       threadId: node.properties.threadId,
+      resourceId: node.properties.resourceId ?? undefined,
       role: node.properties.role,
-      content: node.properties.content,
+      type: node.properties.type ?? "text",
+      content,
       createdAt: new Date(node.properties.createdAt.toString()),
-      metadata: node.properties.metadata ? JSON.parse(node.properties.metadata) : {},
     };
   }
 
+  private toV2Message(message: any): any {
+    // top-level metadata (v1 style) is kept as v2 content metadata
+    const withMetadata = (v2: any) => {
+      const metadata = { ...(message.metadata || {}), ...(v2.content.metadata || {}) };
+      return Object.keys(metadata).length > 0 ? { ...v2, content: { ...v2.content, metadata } } : v2;
+    };
+
+    const [v2] = new MessageList().add(message, "memory").get.all.v2();
+    if (v2) return withMetadata(v2);
+
+    // message list only keeps conversation messages, so system messages are converted by hand
+    const text = typeof message.content === "string" ? message.content : this.getMessageText(message.content);
+    return withMetadata({
+      ...message,
+      content: { format: 2, parts: [{ type: "text", text }], content: text },
+    });
+  }
+
+  private getMessageText(content: any): string {
+    if (!content) return "";
+    if (typeof content === "string") return content;
+    if (typeof content.content === "string") return content.content;
+
+    return (content.parts || [])
+      .filter((part: any) => part.type === "text" && part.text)
+      .map((part: any) => part.text)
+      .join("\n");
+  }
+
+  // v1 is mastra's default when no format is asked for
+  private formatMessages(messages: any[], format?: "v1" | "v2"): any[] {
+    const list = new MessageList().add(messages, "memory");
+    return format === "v2" ? list.get.all.v2() : list.get.all.v1();
+  }
+
   // additional methods that might be required by mastrastorage interface
   async query(query: string, parameters?: any): Promise<any[]> {
     const session = this.driver.session({ database: this.database });
@@ -1136,20 +4624,32 @@ export class Neo4jStorage {
   }
 
   // additional required methods for mastrastorage compatibility
-  async saveResource(resource: any): Promise<any> {
+  // mastra passes { resource }, older callers pass the resource itself
+  async saveResource(args: any): Promise<any> {
+    const resource = args?.resource ?? args;
     const session = this.driver.session({ database: this.database });
 
     try {
+      const now = new Date().toISOString();
+
       const result = await session.run(
         `
         MERGE (r:Resource {id: $id})
-        SET r.metadata = $metadata,
-            r.updatedAt = datetime()
-        RETURN r
+        ON CREATE SET r.createdAt = datetime($createdAt)
+        SET r.workingMemory = $workingMemory,
+            r.metadata = $metadata,
+            r.updatedAt = datetime($updatedAt)
+        WITH r
+        OPTIONAL MATCH (t:Thread {resourceId: $id})
+        FOREACH (_ IN CASE WHEN t IS NULL THEN [] ELSE [1] END | MERGE (r)-[:OWNS]->(t))
+        RETURN DISTINCT r
       `,
         {
           id: resource.id,
+          workingMemory: resource.workingMemory ?? null,
           metadata: JSON.stringify(resource.metadata || {}),
+          createdAt: this.serializeDate(resource.createdAt) || now,
+          updatedAt: this.serializeDate(resource.updatedAt) || now,
         }
       );
 
@@ -1181,41 +4681,101 @@ export class Neo4jStorage {
     }
   }
 
-  async updateResource(resourceId: string, updates: any): Promise<any> {
-    const session = this.driver.session({ database: this.database });
+  // creates the resource when missing; working memory is only replaced when given and metadata is merged.
+  // accepts mastra's { resourceId, workingMemory, metadata } as well as (resourceId, updates)
+  async updateResource(
+    args: string | { resourceId: string; workingMemory?: string; metadata?: Record<string, unknown> },
+    updates?: { workingMemory?: string; metadata?: Record<string, unknown> }
+  ): Promise<any> {
+    const { resourceId, ...fields } = typeof args === "string" ? { resourceId: args, ...(updates || {}) } : args;
+    this.assertUpdateFields("resource", fields, RESOURCE_UPDATE_FIELDS);
+    const { workingMemory, metadata } = fields;
 
-    try {
-      const setClause = Object.keys(updates)
-        .filter((key) => key !== "id")
-        .map((key) => `r.${key} = $${key}`)
-        .join(", ");
+    return this.transaction(async (tx) => {
+      const now = new Date().toISOString();
 
-      const result = await session.run(
+      const existing = await tx.run(
+        `
+        MERGE (r:Resource {id: $resourceId})
+        ON CREATE SET r.createdAt = datetime($now),
+                      r.metadata = '{}'
+        SET r.updatedAt = datetime($now)
+        RETURN r.metadata AS metadata
+      `,
+        { resourceId, now }
+      );
+
+      const storedMetadata = existing.records[0]?.get("metadata");
+      const mergedMetadata = this.deepMerge(storedMetadata ? JSON.parse(storedMetadata) : {}, metadata || {});
+
+      const result = await tx.run(
         `
         MATCH (r:Resource {id: $resourceId})
-        SET ${setClause}, r.updatedAt = datetime()
-        RETURN r
+        SET r.metadata = $metadata,
+            r.workingMemory = CASE WHEN $hasWorkingMemory THEN $workingMemory ELSE r.workingMemory END
+        WITH r
+        OPTIONAL MATCH (t:Thread {resourceId: $resourceId})
+        FOREACH (_ IN CASE WHEN t IS NULL THEN [] ELSE [1] END | MERGE (r)-[:OWNS]->(t))
+        RETURN DISTINCT r
       `,
-        { resourceId, ...updates }
+        {
+          resourceId,
+          metadata: JSON.stringify(mergedMetadata),
+          hasWorkingMemory: workingMemory !== undefined,
+          workingMemory: workingMemory ?? null,
+        }
       );
 
-      if (result.records.length === 0) {
-        return null;
-      }
+      return this.mapNeo4jNodeToResource(result.records[0]?.get("r"));
+    });
+  }
 
-      return this.mapNeo4jNodeToResource(result.records[0].get("r"));
-    } finally {
-      await session.close();
+  private assertUpdateFields(target: string, fields: Record<string, unknown>, allowed: string[]): void {
+    const invalid = Object.keys(fields).filter((key) => !allowed.includes(key));
+    if (invalid.length > 0) {
+      throw new InvalidUpdateFieldError(target, invalid, allowed);
+    }
+  }
+
+  private resolveThreadSort(orderBy?: string, sortDirection?: string): { orderBy: string; sortDirection: string } {
+    const resolvedOrderBy = orderBy || "createdAt";
+    const resolvedSortDirection = (sortDirection || "DESC").toUpperCase();
+
+    if (!THREAD_ORDER_BY.includes(resolvedOrderBy)) {
+      throw new InvalidSortOptionError("orderBy", orderBy, THREAD_ORDER_BY);
     }
+    if (!SORT_DIRECTIONS.includes(resolvedSortDirection)) {
+      throw new InvalidSortOptionError("sortDirection", sortDirection, SORT_DIRECTIONS);
+    }
+
+    return { orderBy: resolvedOrderBy, sortDirection: resolvedSortDirection };
+  }
+
+  // plain objects are merged key by key, everything else (arrays included) is replaced
+  private deepMerge(target: any, source: any): any {
+    const isPlainObject = (value: any) => value !== null && typeof value === "object" && !Array.isArray(value);
+    if (!isPlainObject(target) || !isPlainObject(source)) return source;
+
+    const merged = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue;
+      merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? this.deepMerge(merged[key], value) : value;
+    }
+    return merged;
   }
 
   private mapNeo4jNodeToResource(node: any): any {
     if (!node) return null;
 
+    const updatedAt = new Date(node.properties.updatedAt.toString());
+
     return {
       id: node.properties.id,
+      workingMemory: node.properties.workingMemory ?? undefined,
       metadata: node.properties.metadata ? JSON.parse(node.properties.metadata) : {},
-      updatedAt: new Date(node.properties.updatedAt.toString()),
+      // resources saved before createdAt was tracked fall back to their last update
+      createdAt: node.properties.createdAt ? new Date(node.properties.createdAt.toString()) : updatedAt,
+      updatedAt,
     };
   }
 
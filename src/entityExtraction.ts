@@ -0,0 +1,407 @@
+export interface ExtractedEntity {
+  type: string;
+  value: string;
+  confidence: number;
+  // "global" entities are shared by every resource; by default an entity belongs to the message's resource
+  scope?: "resource" | "global";
+}
+
+// relationship between two entities of the same message, e.g. Person -[WORKS_AT]-> Organization
+export interface ExtractedRelationship {
+  from: { type: string; value: string };
+  to: { type: string; value: string };
+  type: string;
+  confidence: number;
+  // the from entity holds this relationship with one entity at a time, e.g. WORKS_AT: stating a new
+  // target closes the current fact about the previous one
+  exclusive?: boolean;
+}
+
+// a statement that a fact no longer holds, e.g. "I no longer use Python". matches the current
+// relationships of that type in the resource whose given endpoints agree; at least one is required
+export interface ExtractedRetraction {
+  type: string;
+  from?: { type: string; value: string };
+  to?: { type: string; value: string };
+}
+
+export interface EntityExtractionResult {
+  entities: ExtractedEntity[];
+  relationships?: ExtractedRelationship[];
+  retractions?: ExtractedRetraction[];
+}
+
+// what an extractor knows about the message besides its text
+export interface EntityExtractionContext {
+  messageId: string;
+  threadId: string;
+  resourceId?: string | null;
+  role: string;
+}
+
+export interface EntityExtractor {
+  name?: string;
+  extract(
+    text: string,
+    context: EntityExtractionContext
+  ): EntityExtractionResult | ExtractedEntity[] | Promise<EntityExtractionResult | ExtractedEntity[]>;
+}
+
+const DEFAULT_COMMON_WORDS = ["The", "This", "That", "There", "Here", "Hello", "Hi", "Yes", "No", "Thank", "Please"];
+const DEFAULT_PRONOUNS = ["They", "What", "Could", "Would", "Should", "Will", "Can", "May", "Might", "Must", "Shall"];
+const DEFAULT_TECHNOLOGIES = [
+  "graph database",
+  "neo4j",
+  "database",
+  "AI",
+  "machine learning",
+  "python",
+  "javascript",
+  "typescript",
+  "react",
+  "node.js",
+  "nodejs",
+];
+
+// text ending in a negation, checked right before an interest or usage verb
+const NEGATION_SUFFIX = /\b(?:no longer|not|don't|do not|stopped|quit)\s+$/i;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// only common nouns are singularized: names and products often end in "s" without being plurals,
+// "James", "Pandas" and "Rails" are not the plural of anything
+const COMMON_NOUN_TYPES = ["Topic"];
+
+// plural of the last word back to its singular, e.g. databases -> database, libraries -> library.
+// crude on purpose: it only has to map singular and plural onto the same key, not produce real words
+const singularize = (word: string) => {
+  if (word.length <= 3 || !/^\p{L}+$/u.test(word) || /(?:ss|us|is)$/.test(word)) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(?:sses|xes)$/.test(word)) return word.slice(0, -2);
+  return word.endsWith("s") ? word.slice(0, -1) : word;
+};
+
+// the identity of an entity within its type: case, whitespace and surrounding punctuation are ignored,
+// and so are plurals of common nouns, so "Graph Databases" and "graph database" are one topic
+export const normalizeEntityKey = (value: string, type?: string): string => {
+  const key = value
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^[\s"'`.,;:!?]+|[\s"'`.,;:!?]+$/g, "");
+  if (!type || !COMMON_NOUN_TYPES.includes(type)) return key;
+
+  const words = key.split(" ");
+  return [...words.slice(0, -1), singularize(words[words.length - 1])].join(" ");
+};
+
+// relationship types become cypher identifiers, e.g. "works at" -> WORKS_AT
+const normalizeRelationshipType = (type: string) => type.toUpperCase().replace(/[^A-Z0-9_]/g, "_");
+
+// extractor output is untrusted (an llm may leave fields out), these guard what reaches cypher
+const isEndpoint = (endpoint: any): boolean =>
+  typeof endpoint?.type === "string" &&
+  endpoint.type.trim() !== "" &&
+  typeof endpoint?.value === "string" &&
+  normalizeEntityKey(endpoint.value, endpoint.type) !== "";
+const isConfidence = (confidence: any): boolean => typeof confidence === "number" && Number.isFinite(confidence);
+const toRelationshipType = (type: any) => {
+  const normalized = typeof type === "string" ? normalizeRelationshipType(type) : "";
+  return /^[A-Z_][A-Z0-9_]*$/.test(normalized) ? normalized : null;
+};
+
+// the original regex rules: introduced names, stated interests, known technologies and questions
+export class RuleBasedEntityExtractor implements EntityExtractor {
+  name = "rules";
+  private commonWords: string[];
+  private pronouns: string[];
+  private technologies: string[];
+
+  constructor(options?: { commonWords?: string[]; pronouns?: string[]; technologies?: string[] }) {
+    this.commonWords = options?.commonWords ?? DEFAULT_COMMON_WORDS;
+    this.pronouns = options?.pronouns ?? DEFAULT_PRONOUNS;
+    this.technologies = options?.technologies ?? DEFAULT_TECHNOLOGIES;
+  }
+
+  extract(text: string): EntityExtractionResult {
+    const entities: ExtractedEntity[] = [];
+
+    // extract names (capitalized words that could be names)
+    const namePattern = /\b[A-Z][a-z]+(?:\s+[A-Z][a-z]+)*\b/g;
+    const names = text.match(namePattern) || [];
+    names.forEach((name) => {
+      if (name.length > 2 && !this.commonWords.includes(name) && !this.pronouns.includes(name)) {
+        // only extract names that appear in context of introduction or reference
+        if (text.includes(`name is ${name}`) || text.includes(`I'm ${name}`) || text.includes(`call me ${name}`)) {
+          entities.push({ type: "Person", value: name, confidence: 0.9 });
+        }
+      }
+    });
+
+    // extract topics/interests (words after "love", "like", "interested in", etc.)
+    const interestPattern = /(?:love|like|enjoy|interested in|passionate about)\s+([^.!?]+)/gi;
+    const interests = Array.from(text.matchAll(interestPattern))
+      // negated interests ("don't like ...") are retractions, not topics
+      .filter((match) => !NEGATION_SUFFIX.test(text.slice(0, match.index)))
+      .map((match) => match[0]);
+    interests.forEach((interest) => {
+      const topic = interest.replace(/(?:love|like|enjoy|interested in|passionate about)\s+/gi, "").trim();
+      // only extract meaningful topics (not too long or vague)
+      if (topic.length > 2 && topic.length < 50 && !topic.includes("to discuss") && !topic.includes("about them")) {
+        entities.push({ type: "Topic", value: topic, confidence: 0.8 });
+      }
+    });
+
+    // extract technologies (configured tech terms)
+    if (this.technologies.length > 0) {
+      const techPattern = new RegExp(`\\b(?:${this.technologies.map(escapeRegExp).join("|")})\\b`, "gi");
+      const techs = text.match(techPattern) || [];
+      techs.forEach((tech) => {
+        entities.push({ type: "Technology", value: tech.toLowerCase(), confidence: 0.9 });
+      });
+    }
+
+    // extract questions
+    if (text.includes("?")) {
+      const questionWords = ["what", "how", "why", "when", "where", "who"];
+      const hasQuestionWord = questionWords.some((word) => text.toLowerCase().includes(word));
+      if (hasQuestionWord) {
+        entities.push({ type: "Question", value: text.substring(0, 50) + "...", confidence: 0.6 });
+      }
+    }
+
+    return { entities, relationships: this.relate(entities), retractions: this.retract(text) };
+  }
+
+  // "no longer use X", "don't like X anymore", "stopped using X" close the matching USES/INTERESTED_IN facts
+  private retract(text: string): ExtractedRetraction[] {
+    const retractions: ExtractedRetraction[] = [];
+    const negationPattern =
+      /\b(?:no longer|not|don't|do not|stopped|quit)\s+(use|using|like|liking|love|loving|enjoy|enjoying)\s+([^.!?,]+)/gi;
+
+    for (const [, verb, object] of text.matchAll(negationPattern)) {
+      const target = object.replace(/\s+(?:anymore|any more|now)\s*$/i, "").trim();
+      if (/^us/i.test(verb)) {
+        const technology = this.technologies.find((tech) =>
+          new RegExp(`\\b${escapeRegExp(tech)}\\b`, "i").test(target)
+        );
+        if (technology) {
+          retractions.push({ type: "USES", to: { type: "Technology", value: technology.toLowerCase() } });
+        }
+      } else if (target.length > 2 && target.length < 50) {
+        retractions.push({ type: "INTERESTED_IN", to: { type: "Topic", value: target } });
+      }
+    }
+
+    return retractions;
+  }
+
+  // the rules can only guess relationships from the entity types they found together
+  private relate(entities: ExtractedEntity[]): ExtractedRelationship[] {
+    const relationships: ExtractedRelationship[] = [];
+
+    for (let i = 0; i < entities.length; i++) {
+      for (let j = i + 1; j < entities.length; j++) {
+        const entity1 = entities[i];
+        const entity2 = entities[j];
+
+        let relationshipType = "RELATED_TO";
+        if (entity1.type === "Person" && entity2.type === "Topic") {
+          relationshipType = "INTERESTED_IN";
+        } else if (entity1.type === "Person" && entity2.type === "Technology") {
+          relationshipType = "USES";
+        } else if (entity1.type === "Topic" && entity2.type === "Technology") {
+          relationshipType = "IMPLEMENTS";
+        }
+
+        relationships.push({
+          from: { type: entity1.type, value: entity1.value },
+          to: { type: entity2.type, value: entity2.value },
+          type: relationshipType,
+          confidence: Math.min(entity1.confidence, entity2.confidence),
+        });
+      }
+    }
+
+    return relationships;
+  }
+}
+
+export interface GazetteerEntry {
+  type: string;
+  value: string;
+  // other spellings that should be recorded as this entry's value
+  aliases?: string[];
+  confidence?: number;
+  scope?: "resource" | "global";
+}
+
+// finds known terms from a user supplied dictionary, e.g. product names or colleagues
+export class GazetteerEntityExtractor implements EntityExtractor {
+  name = "gazetteer";
+  private patterns: { entry: GazetteerEntry; pattern: RegExp }[];
+
+  constructor(entries: GazetteerEntry[], options?: { caseSensitive?: boolean }) {
+    this.patterns = entries.map((entry) => ({
+      entry,
+      pattern: new RegExp(
+        `(?<![\\w])(?:${[entry.value, ...(entry.aliases || [])].map(escapeRegExp).join("|")})(?![\\w])`,
+        options?.caseSensitive ? "" : "i"
+      ),
+    }));
+  }
+
+  extract(text: string): EntityExtractionResult {
+    return {
+      entities: this.patterns
+        .filter(({ pattern }) => pattern.test(text))
+        .map(({ entry }) => ({
+          type: entry.type,
+          value: entry.value,
+          confidence: entry.confidence ?? 1,
+          ...(entry.scope ? { scope: entry.scope } : {}),
+        })),
+    };
+  }
+}
+
+// wraps any (async) function, typically one that asks an llm for entities and relationships
+export class FunctionEntityExtractor implements EntityExtractor {
+  name: string;
+  private fn: (
+    text: string,
+    context: EntityExtractionContext
+  ) => EntityExtractionResult | ExtractedEntity[] | Promise<EntityExtractionResult | ExtractedEntity[]>;
+
+  constructor(fn: FunctionEntityExtractor["fn"], name = "function") {
+    this.fn = fn;
+    this.name = name;
+  }
+
+  extract(text: string, context: EntityExtractionContext) {
+    return this.fn(text, context);
+  }
+}
+
+// runs every extractor in turn and merges their output; an extractor that throws is skipped, and so
+// are malformed entities, relationships and retractions, so a failing llm call doesn't stop the rules
+// from being recorded
+export class ChainedEntityExtractor implements EntityExtractor {
+  name = "chain";
+  private extractors: EntityExtractor[];
+
+  constructor(extractors: EntityExtractor[]) {
+    this.extractors = extractors;
+  }
+
+  async extract(text: string, context: EntityExtractionContext): Promise<EntityExtractionResult> {
+    const entities = new Map<string, ExtractedEntity>();
+    const relationships = new Map<string, ExtractedRelationship>();
+    const retractions: ExtractedRetraction[] = [];
+    const key = (entity: { type: string; value: string }) =>
+      `${entity.type}\u0000${normalizeEntityKey(entity.value, entity.type)}`;
+
+    // spellings of the same entity are merged; the most confident extraction wins, a scope given by
+    // any extractor is kept
+    const addEntity = (entity: ExtractedEntity) => {
+      const existing = entities.get(key(entity));
+      const scope = entity.scope ?? existing?.scope;
+      const winner = !existing || existing.confidence < entity.confidence ? entity : existing;
+      entities.set(key(entity), scope ? { ...winner, scope } : winner);
+    };
+
+    for (const extractor of this.extractors) {
+      let result: EntityExtractionResult;
+      try {
+        const output = await extractor.extract(text, context);
+        result = Array.isArray(output) ? { entities: output } : output;
+      } catch (error) {
+        console.warn(`Entity extractor ${extractor.name || "unnamed"} failed for message ${context.messageId}`, error);
+        continue;
+      }
+
+      const list = (items: unknown) => (Array.isArray(items) ? items : []);
+      let skipped = 0;
+
+      for (const entity of list(result?.entities)) {
+        if (!isEndpoint(entity) || !isConfidence(entity.confidence)) {
+          skipped++;
+          continue;
+        }
+        addEntity({
+          type: entity.type,
+          value: entity.value,
+          confidence: entity.confidence,
+          ...(entity.scope === "resource" || entity.scope === "global" ? { scope: entity.scope } : {}),
+        });
+      }
+
+      for (const relationship of list(result?.relationships)) {
+        const type = toRelationshipType(relationship?.type);
+        if (
+          !type ||
+          !isEndpoint(relationship.from) ||
+          !isEndpoint(relationship.to) ||
+          !isConfidence(relationship.confidence)
+        ) {
+          skipped++;
+          continue;
+        }
+        const from = { type: relationship.from.type, value: relationship.from.value };
+        const to = { type: relationship.to.type, value: relationship.to.value };
+
+        // endpoints only named in a relationship are still recorded as mentioned
+        addEntity({ ...from, confidence: relationship.confidence });
+        addEntity({ ...to, confidence: relationship.confidence });
+
+        const relationshipKey = `${key(from)}\u0000${type}\u0000${key(to)}`;
+        const existing = relationships.get(relationshipKey);
+        if (!existing || existing.confidence < relationship.confidence) {
+          relationships.set(relationshipKey, {
+            from,
+            to,
+            type,
+            confidence: relationship.confidence,
+            exclusive: relationship.exclusive === true || existing?.exclusive,
+          });
+        }
+      }
+
+      for (const retraction of list(result?.retractions)) {
+        const type = toRelationshipType(retraction?.type);
+        const from = retraction?.from === undefined || isEndpoint(retraction.from);
+        const to = retraction?.to === undefined || isEndpoint(retraction.to);
+        if (!type || !from || !to || (!retraction.from && !retraction.to)) {
+          skipped++;
+          continue;
+        }
+        retractions.push({
+          type,
+          ...(retraction.from ? { from: { type: retraction.from.type, value: retraction.from.value } } : {}),
+          ...(retraction.to ? { to: { type: retraction.to.type, value: retraction.to.value } } : {}),
+        });
+      }
+
+      if (skipped > 0) {
+        console.warn(
+          `Entity extractor ${extractor.name || "unnamed"} returned ${skipped} malformed item(s) for message ${context.messageId}`
+        );
+      }
+    }
+
+    // a fact retracted by the same message is not asserted by it
+    const matches = (endpoint: { type: string; value: string } | undefined, entity: { type: string; value: string }) =>
+      !endpoint || key(endpoint) === key(entity);
+    const asserted = Array.from(relationships.values()).filter(
+      (relationship) =>
+        !retractions.some(
+          (retraction) =>
+            retraction.type === relationship.type &&
+            matches(retraction.from, relationship.from) &&
+            matches(retraction.to, relationship.to)
+        )
+    );
+
+    return { entities: Array.from(entities.values()), relationships: asserted, retractions };
+  }
+}
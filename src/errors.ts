@@ -0,0 +1,33 @@
+// raised before anything is sent to neo4j when caller input can't be turned into a safe query
+export class Neo4jStorageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Neo4jStorageValidationError";
+  }
+}
+
+// an update named fields that are not allowed to be written on the target node
+export class InvalidUpdateFieldError extends Neo4jStorageValidationError {
+  readonly target: string;
+  readonly fields: string[];
+
+  constructor(target: string, fields: string[], allowed: readonly string[]) {
+    super(`Cannot update ${target} field(s) ${fields.join(", ")}; allowed fields are ${allowed.join(", ")}`);
+    this.name = "InvalidUpdateFieldError";
+    this.target = target;
+    this.fields = fields;
+  }
+}
+
+// a sort option outside the supported values, which would otherwise be interpolated into cypher
+export class InvalidSortOptionError extends Neo4jStorageValidationError {
+  readonly option: string;
+  readonly value: unknown;
+
+  constructor(option: string, value: unknown, allowed: readonly string[]) {
+    super(`Invalid ${option} "${String(value)}"; expected one of ${allowed.join(", ")}`);
+    this.name = "InvalidSortOptionError";
+    this.option = option;
+    this.value = value;
+  }
+}
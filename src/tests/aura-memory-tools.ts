@@ -85,11 +85,13 @@ export const auraRememberTool = createTool({
         threadId: context.thread,
         resourceId: context.resource,
         selectBy: { last: 20 }, // get last 20 messages
+        format: "v2", // v2 keeps the metadata we saved with the memory
       });
 
       // filter for memory messages
       const memoryMessages = messages.filter(
-        (msg) => msg.metadata?.memory_type === "aura_information" && msg.metadata?.agent_id === AGENT_ID
+        (msg) =>
+          msg.content.metadata?.memory_type === "aura_information" && msg.content.metadata?.agent_id === AGENT_ID
       );
 
       if (memoryMessages.length === 0) {
@@ -100,7 +102,7 @@ export const auraRememberTool = createTool({
       }
 
       // create a summary of memories
-      const memorySummary = memoryMessages.map((msg) => msg.content).join("\n- ");
+      const memorySummary = memoryMessages.map((msg) => msg.content.content).join("\n- ");
 
       return {
         answer: `Found ${memoryMessages.length} relevant memories:\n- ${memorySummary}`,
@@ -0,0 +1,190 @@
+import { Neo4jStorage } from "../Neo4jStorage";
+import { createTool } from "@mastra/core/tools";
+import z from "zod";
+import dotenv from "dotenv";
+dotenv.config();
+
+// create a neo4j storage instance for the tools
+const neo4jStorage = new Neo4jStorage({
+  uri: process.env.NEO4J_URI || "",
+  username: process.env.NEO4J_USERNAME || "",
+  password: process.env.NEO4J_PASSWORD || "",
+  database: process.env.NEO4J_DATABASE || "",
+});
+
+export const entityRecallTool = createTool({
+  id: "Entity-recall",
+  description:
+    "List what is known about the user from past conversations: people, interests (Topic) and technologies they mentioned, strongest and most recent first.",
+  inputSchema: z.object({
+    resource: z.string().describe("Resource ID (usually user ID)"),
+    type: z
+      .string()
+      .optional()
+      .describe("Only this kind of entity, e.g. Topic for interests, Technology, Person. Leave empty for everything."),
+  }),
+  outputSchema: z.object({
+    answer: z.string().describe("The entities known about the user."),
+    entitiesFound: z.number().describe("Number of entities found"),
+  }),
+  execute: async ({ context }) => {
+    try {
+      // ensure storage is initialized
+      await ensureStorageInitialized();
+
+      const entities = await neo4jStorage.getEntities({
+        resourceId: context.resource,
+        type: context.type,
+        limit: 25,
+      });
+
+      if (entities.length === 0) {
+        return {
+          answer: "Nothing is known about this user yet.",
+          entitiesFound: 0,
+        };
+      }
+
+      const summary = entities
+        .map(
+          (entity) =>
+            `${entity.type}: ${entity.value} (mentioned ${entity.mentions} time(s)` +
+            `${entity.lastSeenAt ? `, last on ${entity.lastSeenAt.toISOString().slice(0, 10)}` : ""})`
+        )
+        .join("\n- ");
+
+      return {
+        answer: `Found ${entities.length} entities:\n- ${summary}`,
+        entitiesFound: entities.length,
+      };
+    } catch (error) {
+      console.error("Error reading entities:", error);
+      return {
+        answer: `Error reading entities: ${error instanceof Error ? error.message : String(error)}`,
+        entitiesFound: 0,
+      };
+    }
+  },
+});
+
+export const entityExploreTool = createTool({
+  id: "Entity-explore",
+  description: "Look up one thing the user mentioned: what it is connected to and the messages where it came up.",
+  inputSchema: z.object({
+    resource: z.string().describe("Resource ID (usually user ID)"),
+    type: z.string().describe("Entity type, e.g. Person, Topic, Technology"),
+    value: z.string().describe("Entity value as returned by Entity-recall"),
+    depth: z.number().int().min(1).max(3).optional().describe("How many hops of connections to follow (default 1)"),
+  }),
+  outputSchema: z.object({
+    answer: z.string().describe("Connections and mentions of the entity."),
+    connectionsFound: z.number().describe("Number of connected entities found"),
+  }),
+  execute: async ({ context }) => {
+    try {
+      await ensureStorageInitialized();
+
+      const entity = { resourceId: context.resource, type: context.type, value: context.value };
+      const neighbours = await neo4jStorage.getEntityNeighbours({ ...entity, depth: context.depth ?? 1 });
+      const mentions = await neo4jStorage.getEntityMentions({ ...entity, limit: 5 });
+
+      if (neighbours.length === 0 && mentions.length === 0) {
+        return {
+          answer: `Nothing is known about ${context.type} "${context.value}" for this user.`,
+          connectionsFound: 0,
+        };
+      }
+
+      const connections = neighbours
+        .map(
+          (neighbour) =>
+            `${neighbour.entity.type}: ${neighbour.entity.value} via ${neighbour.relationships
+              .map((relationship: any) => relationship.type)
+              .join(" -> ")} (confidence ${neighbour.confidence.toFixed(2)})`
+        )
+        .join("\n- ");
+      const quotes = mentions.map(({ message }) => message.content.content).join("\n- ");
+
+      return {
+        answer: [
+          neighbours.length > 0 ? `Connected to:\n- ${connections}` : "No connections found.",
+          mentions.length > 0 ? `Mentioned in:\n- ${quotes}` : "",
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        connectionsFound: neighbours.length,
+      };
+    } catch (error) {
+      console.error("Error exploring entity:", error);
+      return {
+        answer: `Error exploring entity: ${error instanceof Error ? error.message : String(error)}`,
+        connectionsFound: 0,
+      };
+    }
+  },
+});
+
+export const entityConnectionTool = createTool({
+  id: "Entity-connection",
+  description: "Explain how two things the user mentioned are connected, e.g. a person and a technology.",
+  inputSchema: z.object({
+    resource: z.string().describe("Resource ID (usually user ID)"),
+    fromType: z.string().describe("Type of the first entity"),
+    fromValue: z.string().describe("Value of the first entity"),
+    toType: z.string().describe("Type of the second entity"),
+    toValue: z.string().describe("Value of the second entity"),
+  }),
+  outputSchema: z.object({
+    answer: z.string().describe("The chain of relationships connecting the two entities."),
+    connected: z.boolean().describe("Whether a connection was found"),
+  }),
+  execute: async ({ context }) => {
+    try {
+      await ensureStorageInitialized();
+
+      const path = await neo4jStorage.findEntityPath({
+        resourceId: context.resource,
+        from: { type: context.fromType, value: context.fromValue },
+        to: { type: context.toType, value: context.toValue },
+      });
+
+      if (!path) {
+        return {
+          answer: `No connection found between "${context.fromValue}" and "${context.toValue}".`,
+          connected: false,
+        };
+      }
+
+      const chain = path.relationships
+        .map((relationship) => `${relationship.from.value} -[${relationship.type}]- ${relationship.to.value}`)
+        .join("\n- ");
+
+      return {
+        answer: `Connected in ${path.length} step(s):\n- ${chain}`,
+        connected: true,
+      };
+    } catch (error) {
+      console.error("Error finding connection:", error);
+      return {
+        answer: `Error finding connection: ${error instanceof Error ? error.message : String(error)}`,
+        connected: false,
+      };
+    }
+  },
+});
+
+// initialize storage lazily when first tool is used
+let storageInitialized = false;
+
+async function ensureStorageInitialized() {
+  if (!storageInitialized) {
+    try {
+      await neo4jStorage.initialize();
+      storageInitialized = true;
+      console.log("✅ Neo4j storage initialized");
+    } catch (error) {
+      console.error("❌ Failed to initialize Neo4j storage:", error);
+      throw error;
+    }
+  }
+}
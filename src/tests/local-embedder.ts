@@ -0,0 +1,40 @@
+import type { EmbeddingModel } from "ai";
+
+// deterministic embedder for running semantic recall offline: hashes lower-cased words into a fixed
+// number of buckets and normalizes, so texts sharing words end up close under cosine similarity
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 256;
+
+export async function localEmbed(text: string): Promise<number[]> {
+  const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+  for (const word of words) {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 16777619);
+    }
+    vector[(hash >>> 0) % LOCAL_EMBEDDING_DIMENSIONS] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  // the vector index rejects all-zero vectors, keep empty texts embeddable
+  if (norm === 0) {
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+// the same embedder in the shape mastra memory expects (an ai sdk embedding model)
+export const localEmbeddingModel: EmbeddingModel<string> = {
+  specificationVersion: "v1",
+  provider: "local",
+  modelId: "hashed-bag-of-words",
+  maxEmbeddingsPerCall: Infinity,
+  supportsParallelCalls: true,
+  async doEmbed({ values }: { values: string[] }) {
+    return { embeddings: await Promise.all(values.map((value) => localEmbed(value))) };
+  },
+};
@@ -2,7 +2,10 @@ import { Agent } from "@mastra/core";
 import { Memory } from "@mastra/memory";
 import { openai } from "@ai-sdk/openai";
 import { Neo4jStorage } from "../Neo4jStorage";
+import { Neo4jMessageVector } from "../Neo4jMessageVector";
+import { localEmbed, localEmbeddingModel, LOCAL_EMBEDDING_DIMENSIONS } from "./local-embedder";
 import { auraMemorizeTool, auraRememberTool } from "./aura-memory-tools";
+import { entityConnectionTool, entityExploreTool, entityRecallTool } from "./entity-graph-tools";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -17,16 +20,20 @@ async function testNeo4jStoredMemory() {
       username: process.env.NEO4J_USERNAME || "",
       password: process.env.NEO4J_PASSWORD || "",
       database: process.env.NEO4J_DATABASE || "",
+      embedder: localEmbed,
+      embeddingDimensions: LOCAL_EMBEDDING_DIMENSIONS,
     });
 
     await neo4jStorage.initialize();
 
-    // create memory with neo4j storage
+    // create memory with neo4j storage, also used as the vector store with a deterministic local embedder
     const memory = new Memory({
       storage: neo4jStorage as any,
+      vector: new Neo4jMessageVector(neo4jStorage),
+      embedder: localEmbeddingModel,
       options: {
         lastMessages: 10,
-        semanticRecall: false,
+        semanticRecall: { topK: 3, messageRange: 2, scope: "resource" },
         threads: { generateTitle: false },
         workingMemory: { enabled: false },
       },
@@ -41,6 +48,9 @@ async function testNeo4jStoredMemory() {
       tools: {
         "aura-memorize": auraMemorizeTool,
         "aura-remember": auraRememberTool,
+        "entity-recall": entityRecallTool,
+        "entity-explore": entityExploreTool,
+        "entity-connection": entityConnectionTool,
       },
     });
 
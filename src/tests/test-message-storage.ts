@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { Neo4jStorage } from "../Neo4jStorage";
+import { Neo4jMessageVector } from "../Neo4jMessageVector";
+import { localEmbed, LOCAL_EMBEDDING_DIMENSIONS } from "./local-embedder";
+import dotenv from "dotenv";
+dotenv.config();
+
+// round trips through the storage alone, no llm involved. every check writes its own thread and
+// removes it again
+async function testMessageStorage() {
+  console.log("🧪 Testing Message Storage");
+  console.log("=".repeat(50));
+
+  const storage = new Neo4jStorage({
+    uri: process.env.NEO4J_URI || "",
+    username: process.env.NEO4J_USERNAME || "",
+    password: process.env.NEO4J_PASSWORD || "",
+    database: process.env.NEO4J_DATABASE || "",
+  });
+
+  try {
+    await storage.initialize();
+
+    await testToolCallRoundTrip(storage);
+    await testVectorUpsertWhileSaving(storage);
+    await testRetrieveAsOf(storage);
+
+    console.log("");
+    console.log("🎯 All message storage checks passed!");
+  } catch (error) {
+    console.error("❌ Error:", error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await storage.close();
+  }
+}
+
+// a v1 tool call and its result read back as both v1 and v2
+async function testToolCallRoundTrip(storage: Neo4jStorage) {
+  const threadId = `tool-roundtrip-${Date.now()}`;
+  const resourceId = "user_roundtrip";
+
+  try {
+    await storage.saveMessages({
+      messages: [
+        {
+          id: `${threadId}-call`,
+          threadId,
+          resourceId,
+          role: "assistant",
+          type: "tool-call",
+          createdAt: new Date("2024-01-01T10:00:00Z"),
+          content: [{ type: "tool-call", toolCallId: `${threadId}-tc`, toolName: "weather", args: { city: "Paris" } }],
+        },
+        {
+          id: `${threadId}-result`,
+          threadId,
+          resourceId,
+          role: "tool",
+          type: "tool-result",
+          createdAt: new Date("2024-01-01T10:00:01Z"),
+          content: [{ type: "tool-result", toolCallId: `${threadId}-tc`, toolName: "weather", result: { temp: 20 } }],
+        },
+      ],
+    });
+
+    const v1 = await storage.getMessages({ threadId, format: "v1" });
+    const v1Parts = v1.flatMap((message: any) => (Array.isArray(message.content) ? message.content : []));
+    assert.ok(
+      v1Parts.some((part: any) => part.type === "tool-call" && part.args?.city === "Paris"),
+      "v1 keeps the tool call"
+    );
+    assert.ok(
+      v1Parts.some((part: any) => part.type === "tool-result" && part.result?.temp === 20),
+      "v1 keeps the tool result"
+    );
+
+    const v2 = await storage.getMessages({ threadId, format: "v2" });
+    const invocations = v2.flatMap((message: any) =>
+      (message.content.parts || [])
+        .filter((part: any) => part.type === "tool-invocation")
+        .map((part: any) => part.toolInvocation)
+    );
+    assert.ok(
+      invocations.some((invocation: any) => invocation.state === "call" && invocation.args?.city === "Paris"),
+      "v2 keeps the tool call"
+    );
+    assert.ok(
+      invocations.some((invocation: any) => invocation.state === "result" && invocation.result?.temp === 20),
+      "v2 keeps the tool result"
+    );
+
+    console.log("✅ Tool calls round trip as v1 and v2");
+  } finally {
+    await storage.deleteThreadById(threadId);
+  }
+}
+
+// the storage has no embedder here, so embeddings only come from the vector store. memory starts
+// saving the messages and upserting their vectors at the same time; the vector may also arrive first
+async function testVectorUpsertWhileSaving(storage: Neo4jStorage) {
+  const threadId = `vector-upsert-${Date.now()}`;
+  const resourceId = "user_vector";
+  const vector = new Neo4jMessageVector(storage);
+  const indexName = "memory_messages";
+  const texts = ["Neo4j stores the conversation graph", "Pandas loads the quarterly sales figures"];
+
+  try {
+    await vector.createIndex({ indexName, dimension: LOCAL_EMBEDDING_DIMENSIONS });
+    const messages = texts.map((text, i) => ({
+      id: `${threadId}-${i}`,
+      threadId,
+      resourceId,
+      role: "user",
+      type: "text",
+      createdAt: new Date(Date.now() + i),
+      content: text,
+    }));
+    const upsert = async (i: number) =>
+      vector.upsert({
+        indexName,
+        vectors: [await localEmbed(texts[i])],
+        metadata: [{ message_id: messages[i].id, thread_id: threadId, resource_id: resourceId }],
+      });
+
+    // the first vector lands before its message, the second one races the save
+    await upsert(0);
+    await Promise.all([storage.saveMessages({ messages }), upsert(1)]);
+
+    for (let i = 0; i < texts.length; i++) {
+      const hits = await vector.query({
+        indexName,
+        queryVector: await localEmbed(texts[i]),
+        topK: 5,
+        filter: { thread_id: threadId },
+      });
+      assert.ok(
+        hits.some((hit) => hit.id === messages[i].id),
+        `the vector of "${texts[i]}" is stored on its message`
+      );
+    }
+
+    console.log("✅ Vectors upserted while saving reach their messages");
+  } finally {
+    await storage.deleteThreadById(threadId);
+  }
+}
+
+// recall as of a past date leaves out what was written after it and ages messages from that date
+async function testRetrieveAsOf(storage: Neo4jStorage) {
+  const threadId = `retrieve-asof-${Date.now()}`;
+  const resourceId = `user_asof_${Date.now()}`;
+
+  try {
+    await storage.saveMessages({
+      messages: [
+        {
+          id: `${threadId}-before`,
+          threadId,
+          resourceId,
+          role: "user",
+          type: "text",
+          createdAt: new Date("2024-01-01T10:00:00Z"),
+          content: "The quarterly budget review moved to Thursday",
+        },
+        {
+          id: `${threadId}-after`,
+          threadId,
+          resourceId,
+          role: "user",
+          type: "text",
+          createdAt: new Date("2024-06-01T10:00:00Z"),
+          content: "The quarterly budget review moved to Friday",
+        },
+      ],
+    });
+
+    const asOf = new Date("2024-03-01T00:00:00Z");
+    const results = await storage.retrieveMessages({ query: "quarterly budget review", resourceId, asOf });
+    const ids = results.map((result) => result.message.id);
+    assert.ok(ids.includes(`${threadId}-before`), "the earlier message is recalled");
+    assert.ok(!ids.includes(`${threadId}-after`), "the later message is left out");
+
+    const before = results.find((result) => result.message.id === `${threadId}-before`)!;
+    assert.ok(before.scores.recency > 0.1, "recency is measured from asOf, not from today");
+
+    console.log("✅ Recall as of a date leaves out later messages");
+  } finally {
+    await storage.deleteThreadById(threadId);
+  }
+}
+
+// run the test
+testMessageStorage().catch(console.error);